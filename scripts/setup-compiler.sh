@@ -4,8 +4,8 @@ set -eu
 
 
 CAIRO_COMPILER_TARGET_TAG=$(jq -r .CAIRO_COMPILER config.json)
-
-echo "Installing cairo compiler $CAIRO_COMPILER_TARGET_TAG"
+# ByteArray is only supported by newer compilers, used by the cases testing it
+BYTE_ARRAY_CAIRO_COMPILER_TARGET_TAG=$(jq -r .BYTE_ARRAY_CAIRO_COMPILER config.json)
 
 CAIRO_COMPILER_ASSET_NAME="release-x86_64-unknown-linux-musl.tar.gz"
 
@@ -13,21 +13,34 @@ if [[ "$OSTYPE" == "darwin"* ]]; then
     CAIRO_COMPILER_ASSET_NAME="release-aarch64-apple-darwin.tar"
 fi
 
-COMPILER_BINARY_URL="https://github.com/starkware-libs/cairo/releases/download/$CAIRO_COMPILER_TARGET_TAG/$CAIRO_COMPILER_ASSET_NAME"
+# Downloads the compiler of the release tag $1 and extracts it into the directory $2
+function install_compiler() {
+    local target_tag="$1"
+    local target_dir="$2"
+    echo "Installing cairo compiler $target_tag"
 
-if [ -z "${CAIRO_1_COMPILER_DIR+x}" ]; then
-    # Setup cairo1 compiler
-    echo $COMPILER_BINARY_URL
-    mkdir -p cairo-compiler/target/release
-    curl --location -O --request GET "$COMPILER_BINARY_URL"
+    local compiler_binary_url="https://github.com/starkware-libs/cairo/releases/download/$target_tag/$CAIRO_COMPILER_ASSET_NAME"
+    echo $compiler_binary_url
+    mkdir -p "$target_dir/target/release"
+    curl --location -O --request GET "$compiler_binary_url"
     # Unzip asset and move to correct target
-    tar -zxvf $CAIRO_COMPILER_ASSET_NAME -C cairo-compiler --strip-components=1
-    mv cairo-compiler/bin/* cairo-compiler/target/release/
-    mv cairo-compiler/corelib cairo-compiler/target/corelib
+    tar -zxvf $CAIRO_COMPILER_ASSET_NAME -C "$target_dir" --strip-components=1
+    mv "$target_dir"/bin/* "$target_dir/target/release/"
+    mv "$target_dir/corelib" "$target_dir/target/corelib"
     # Remove empty directory and asset
-    rm -rf $CAIRO_COMPILER_ASSET_NAME cairo-compiler/bin
+    rm -rf $CAIRO_COMPILER_ASSET_NAME "$target_dir/bin"
+}
+
+if [ -z "${CAIRO_1_COMPILER_DIR+x}" ]; then
+    # Setup cairo1 compiler
+    install_compiler "$CAIRO_COMPILER_TARGET_TAG" cairo-compiler
     export CAIRO_1_COMPILER_DIR="$(readlink -f  "cairo-compiler/target/release")"
 fi
 
-$CAIRO_1_COMPILER_DIR/starknet-compile --version
+if [ -z "${BYTE_ARRAY_CAIRO_1_COMPILER_DIR+x}" ]; then
+    install_compiler "$BYTE_ARRAY_CAIRO_COMPILER_TARGET_TAG" byte-array-cairo-compiler
+    export BYTE_ARRAY_CAIRO_1_COMPILER_DIR="$(readlink -f  "byte-array-cairo-compiler/target/release")"
+fi
 
+$CAIRO_1_COMPILER_DIR/starknet-compile --version
+$BYTE_ARRAY_CAIRO_1_COMPILER_DIR/starknet-compile --version
@@ -32,6 +32,7 @@ import {
     InvokeResponse,
     Numeric,
     StarknetContract,
+    ContractFunctionTypes,
     StarknetContractFactory,
     StringMap
 } from "./types";
@@ -76,10 +77,10 @@ export abstract class Account {
      * @param functionName function in the contract to be called
      * @param calldata calldata to use as input for the contract call
      */
-    async invoke(
-        toContract: StarknetContract,
-        functionName: string,
-        calldata?: StringMap,
+    async invoke<F extends ContractFunctionTypes, N extends keyof F & string>(
+        toContract: StarknetContract<F>,
+        functionName: N,
+        calldata?: F[N]["inputs"],
         options?: InvokeOptions
     ): Promise<InvokeResponse> {
         if (options?.maxFee && options?.overhead) {
@@ -110,11 +111,11 @@ export abstract class Account {
      * @param options extra options
      * @returns the deployed StarknetContract
      */
-    async deploy(
-        contractFactory: StarknetContractFactory,
+    async deploy<F extends ContractFunctionTypes>(
+        contractFactory: StarknetContractFactory<F>,
         constructorArguments?: StringMap,
         options: DeployOptions = {}
-    ): Promise<StarknetContract> {
+    ): Promise<StarknetContract<F>> {
         const classHash = await contractFactory.getClassHash();
         const udc = await UDC.getInstance();
         const adaptedArgs = contractFactory.handleConstructorArguments(constructorArguments);
@@ -159,10 +160,10 @@ export abstract class Account {
         }
     }
 
-    async estimateFee(
-        toContract: StarknetContract,
-        functionName: string,
-        calldata?: StringMap,
+    async estimateFee<F extends ContractFunctionTypes, N extends keyof F & string>(
+        toContract: StarknetContract<F>,
+        functionName: N,
+        calldata?: F[N]["inputs"],
         options?: EstimateFeeOptions
     ): Promise<starknet.FeeEstimation> {
         return await this.interact(
@@ -383,7 +384,9 @@ export abstract class Account {
                   );
             return {
                 contractAddress: callParameters.toContract.address,
-                entrypoint: callParameters.functionName,
+                entrypoint: callParameters.toContract.getEntrypointName(
+                    callParameters.functionName
+                ),
                 calldata
             };
         });
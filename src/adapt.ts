@@ -1,5 +1,7 @@
 import { BigNumberish, num } from "starknet";
 
+import { BYTE_ARRAY_TYPE, deserializeByteArray, serializeByteArray } from "./byte-array";
+import { CodecRegistry } from "./codecs";
 import { StarknetPluginError } from "./starknet-plugin-error";
 import { HEXADECIMAL_REGEX, LEN_SUFFIX_DEPRECATED } from "./constants";
 import * as starknet from "./starknet-types";
@@ -7,7 +9,7 @@ import { StringMap } from "./types";
 
 const NAMED_TUPLE_DELIMITER = ": ";
 const ARGUMENTS_DELIMITER = ", ";
-const COMMON_NUMERIC_TYPES = [
+export const COMMON_NUMERIC_TYPES = [
     "felt",
     "core::felt252",
     "core::integer::u8",
@@ -15,13 +17,35 @@ const COMMON_NUMERIC_TYPES = [
     "core::integer::u32",
     "core::integer::u64",
     "core::integer::u128",
+    "core::integer::i8",
+    "core::integer::i16",
+    "core::integer::i32",
+    "core::integer::i64",
+    "core::integer::i128",
     "core::starknet::contract_address::ContractAddress",
     "core::starknet::class_hash::ClassHash",
-    "core::starknet::eth_address::EthAddress"
+    "core::starknet::eth_address::EthAddress",
+    "core::starknet::storage_access::StorageAddress"
 ];
 
-const ARRAY_TYPE_PREFIX = "core::array::Array::<";
-const ARRAY_TYPE_SUFFIX = ">";
+// Inclusive ranges of integer types, checked on input
+const INTEGER_RANGES: Record<string, { min: bigint; max: bigint }> = {};
+for (const bits of [8, 16, 32, 64, 128]) {
+    const unsignedMax = (BigInt(1) << BigInt(bits)) - BigInt(1);
+    INTEGER_RANGES[`core::integer::u${bits}`] = { min: BigInt(0), max: unsignedMax };
+
+    const signedBound = BigInt(1) << BigInt(bits - 1);
+    INTEGER_RANGES[`core::integer::i${bits}`] = { min: -signedBound, max: signedBound - BigInt(1) };
+}
+
+export const ARRAY_TYPE_PREFIX = "core::array::Array::<";
+export const ARRAY_TYPE_SUFFIX = ">";
+// spans are serialized the same way as arrays
+const SPAN_TYPE_PREFIX = "core::array::Span::<";
+const NON_ZERO_TYPE_PREFIX = "core::zeroable::NonZero::<";
+const OPTION_TYPE_PREFIX = "core::option::Option::<";
+const RESULT_TYPE_PREFIX = "core::result::Result::<";
+export const UNIT_TYPE = "()";
 
 function isNumeric(value: { toString: () => string }) {
     if (value === undefined || value === null) {
@@ -42,30 +66,197 @@ function toNumericString(value: { toString: () => string }) {
     return nonNegativeNum.toString();
 }
 
-function isNamedTuple(type: string): boolean {
+export function isNamedTuple(type: string): boolean {
     return type.includes(NAMED_TUPLE_DELIMITER);
 }
 
-function isTuple(type: string): boolean {
+export function isTuple(type: string): boolean {
     return type[0] === "(" && type[type.length - 1] === ")";
 }
 
-function isArrayDeprecated(type: string): boolean {
+export function isArrayDeprecated(type: string): boolean {
     return type.endsWith("*");
 }
 
-function isArray(type: string): boolean {
-    return type.startsWith(ARRAY_TYPE_PREFIX) && type.endsWith(ARRAY_TYPE_SUFFIX);
+export function isArray(type: string): boolean {
+    return (
+        (type.startsWith(ARRAY_TYPE_PREFIX) || type.startsWith(SPAN_TYPE_PREFIX)) &&
+        type.endsWith(ARRAY_TYPE_SUFFIX)
+    );
+}
+
+/**
+ * @param type an array or a span type, e.g. `core::array::Span::<core::felt252>`
+ * @returns the type of elements, e.g. `core::felt252`
+ */
+export function getArrayElementType(type: string): string {
+    const prefix = type.startsWith(SPAN_TYPE_PREFIX) ? SPAN_TYPE_PREFIX : ARRAY_TYPE_PREFIX;
+    return type.slice(prefix.length, type.length - ARRAY_TYPE_SUFFIX.length);
+}
+
+export function isNonZero(type: string): boolean {
+    return type.startsWith(NON_ZERO_TYPE_PREFIX) && type.endsWith(ARRAY_TYPE_SUFFIX);
 }
 
-function isBool(type: string): boolean {
+/**
+ * @param type e.g. `core::zeroable::NonZero::<core::integer::u64>`
+ * @returns the type of the wrapped value, e.g. `core::integer::u64`
+ */
+export function getNonZeroValueType(type: string): string {
+    return type.slice(NON_ZERO_TYPE_PREFIX.length, type.length - ARRAY_TYPE_SUFFIX.length);
+}
+
+export function isBool(type: string): boolean {
     return type == "core::bool";
 }
 
-function isU256(type: string): boolean {
+export function isU256(type: string): boolean {
     return type == "core::integer::u256";
 }
 
+export function isU512(type: string): boolean {
+    return type == "core::integer::u512";
+}
+
+export function isByteArray(type: string): boolean {
+    return type == BYTE_ARRAY_TYPE;
+}
+
+export function isSignedInteger(type: string): boolean {
+    return /^core::integer::i\d+$/.test(type);
+}
+
+/**
+ * Checks that `value` is within the range of the integer `type`. Other types are not checked.
+ * @param value a numeric value
+ */
+function validateIntegerRange(value: { toString: () => string }, type: string, name: string) {
+    const range = INTEGER_RANGES[type];
+    const bigintValue = BigInt(value.toString());
+    if (range && (bigintValue < range.min || bigintValue > range.max)) {
+        const typeName = type.split("::").pop();
+        const msg = `Expected ${name} to be of type ${typeName} in range [${range.min}, ${range.max}]; got ${value}`;
+        throw new StarknetPluginError(msg);
+    }
+}
+
+/**
+ * Converts a felt to the value of an integer of `type`. Felts of signed integers exceeding
+ * the upper half of the field represent negative values.
+ */
+function convertOutputToInteger(value: bigint, type: string): bigint {
+    if (isSignedInteger(type) && value > PRIME_FLOOR) {
+        return value - PRIME;
+    }
+    return value;
+}
+
+/**
+ * Splits the top-level arguments of a generic type,
+ * e.g. `core::result::Result::<(u8, u8), felt252>` into `(u8, u8)` and `felt252`.
+ */
+function extractGenericArguments(type: string, prefix: string): string[] {
+    const content = type.slice(prefix.length, -ARRAY_TYPE_SUFFIX.length);
+    const args: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < content.length; ++i) {
+        if (content[i] === "<" || content[i] === "(") {
+            depth++;
+        } else if (content[i] === ">" || content[i] === ")") {
+            depth--;
+        } else if (content[i] === "," && depth === 0) {
+            args.push(content.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    args.push(content.slice(start).trim());
+    return args;
+}
+
+/**
+ * Returns the specification of the Cairo 1 enum `type`, or `undefined` if `type` is not an enum.
+ * `Option` and `Result` are recognized even if the ABI doesn't declare them.
+ */
+export function getEnum(type: string, abi: starknet.Abi): starknet.Enum | undefined {
+    const abiEntry = abi[type];
+    if (abiEntry?.type === "enum") {
+        return <starknet.Enum>abiEntry;
+    }
+
+    if (type.startsWith(OPTION_TYPE_PREFIX) && type.endsWith(ARRAY_TYPE_SUFFIX)) {
+        const [valueType] = extractGenericArguments(type, OPTION_TYPE_PREFIX);
+        return {
+            type: "enum",
+            name: type,
+            variants: [
+                { name: "Some", type: valueType },
+                { name: "None", type: UNIT_TYPE }
+            ]
+        };
+    }
+
+    if (type.startsWith(RESULT_TYPE_PREFIX) && type.endsWith(ARRAY_TYPE_SUFFIX)) {
+        const [okType, errType] = extractGenericArguments(type, RESULT_TYPE_PREFIX);
+        return {
+            type: "enum",
+            name: type,
+            variants: [
+                { name: "Ok", type: okType },
+                { name: "Err", type: errType }
+            ]
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks if values of `type` contain a `ByteArray` or a type with a registered codec, possibly nested.
+ * Such values are adapted by the plugin, since starknet.js doesn't decode them the same way.
+ */
+export function requiresAdaptation(
+    type: string,
+    abi: starknet.Abi,
+    codecs?: CodecRegistry,
+    visitedTypes: Set<string> = new Set()
+): boolean {
+    if (isByteArray(type) || codecs?.has(type)) {
+        return true;
+    }
+    if (visitedTypes.has(type)) {
+        return false;
+    }
+    visitedTypes.add(type);
+
+    const requires = (nestedType: string) =>
+        requiresAdaptation(nestedType, abi, codecs, visitedTypes);
+    if (isArray(type)) {
+        return requires(getArrayElementType(type));
+    }
+    if (isArrayDeprecated(type)) {
+        return requires(type.slice(0, -1));
+    }
+    if (isNonZero(type)) {
+        return requires(getNonZeroValueType(type));
+    }
+    if (isTuple(type)) {
+        return extractMemberTypes(type.slice(1, -1)).some((memberType) =>
+            requires(isNamedTuple(memberType) ? parseNamedTuple(memberType).type : memberType)
+        );
+    }
+
+    const enumSpec = getEnum(type, abi);
+    if (enumSpec) {
+        return enumSpec.variants.some((variant) => requires(variant.type));
+    }
+    const abiEntry = abi[type];
+    if (abiEntry && "members" in abiEntry) {
+        return abiEntry.members.some((member) => requires(member.type));
+    }
+    return false;
+}
+
 function validateAndConvertBooleanInput(value: any, errorMsg: string): string {
     if (typeof value !== "boolean" && typeof value !== "number") {
         throw new StarknetPluginError(errorMsg);
@@ -80,30 +271,56 @@ function validateAndConvertBooleanInput(value: any, errorMsg: string): string {
 
 const U128_MAX = (BigInt(1) << BigInt(128)) - BigInt(1);
 
-function validateAndConvertU256Input(value: any, errorMsg: string): string[] {
+/**
+ * Splits `value` into u128 limbs, the least significant first, as u256 and u512 are serialized.
+ */
+function validateAndConvertU128LimbsInput(
+    value: unknown,
+    limbCount: number,
+    errorMsg: string
+): string[] {
     if (typeof value !== "number" && typeof value !== "bigint") {
         throw new StarknetPluginError(errorMsg);
     }
 
-    value = BigInt(value);
+    let remainder = BigInt(value);
+    const bits = 128 * limbCount;
+    if (remainder < 0 || remainder >> BigInt(bits)) {
+        throw new StarknetPluginError(`${errorMsg}, which is out of range [0, 2^${bits} - 1]`);
+    }
 
-    const lo = value & U128_MAX;
-    const hi = value >> BigInt(128);
+    const limbs: string[] = [];
+    for (let i = 0; i < limbCount; ++i) {
+        limbs.push(toNumericString(remainder & U128_MAX));
+        remainder >>= BigInt(128);
+    }
+    return limbs;
+}
+
+function validateAndConvertU256Input(value: unknown, errorMsg: string): string[] {
+    return validateAndConvertU128LimbsInput(value, 2, errorMsg);
+}
 
-    return [toNumericString(lo), toNumericString(hi)];
+function validateAndConvertU512Input(value: unknown, errorMsg: string): string[] {
+    return validateAndConvertU128LimbsInput(value, 4, errorMsg);
 }
 
 function convertOutputToBoolean(type: bigint): boolean {
     return type ? true : false;
 }
 
+// joins u128 limbs, the least significant first
+function convertOutputFromU128Limbs(limbs: bigint[]): bigint {
+    return limbs.reduceRight((value, limb) => (value << BigInt(128)) | BigInt(limb), BigInt(0));
+}
+
 function convertOutputToU256(lo: bigint, hi: bigint): bigint {
-    return (BigInt(hi) << BigInt(128)) | BigInt(lo);
+    return convertOutputFromU128Limbs([lo, hi]);
 }
 
 // Can't use String.split since ':' also can be inside type
 // Ex: x : (y : felt, z: SomeStruct)
-function parseNamedTuple(namedTuple: string): starknet.Argument {
+export function parseNamedTuple(namedTuple: string): starknet.Argument {
     const index = namedTuple.indexOf(NAMED_TUPLE_DELIMITER);
     const name = namedTuple.substring(0, index);
     const type = namedTuple.substring(name.length + NAMED_TUPLE_DELIMITER.length);
@@ -112,7 +329,7 @@ function parseNamedTuple(namedTuple: string): starknet.Argument {
 }
 
 // Returns types of tuple
-function extractMemberTypes(s: string): string[] {
+export function extractMemberTypes(s: string): string[] {
     // Replace all top-level tuples with '#'
     const specialSymbol = "#";
 
@@ -189,6 +406,7 @@ function extractMemberTypes(s: string): string[] {
  * @param input the input object containing function arguments under their names
  * @param inputSpecs ABI specifications extracted from function.inputs
  * @param abi the ABI artifact of compilation, parsed into an object
+ * @param codecs custom conversions of types, applied before their default adaptation
  * @returns array containing stringified function arguments in the correct order
  */
 export function adaptInputUtil(
@@ -196,7 +414,8 @@ export function adaptInputUtil(
     input: any,
     inputSpecs: starknet.Argument[],
     abi: starknet.Abi,
-    isCairo1: boolean
+    isCairo1: boolean,
+    codecs?: CodecRegistry
 ): string[] {
     const adapted: string[] = [];
 
@@ -219,11 +438,15 @@ export function adaptInputUtil(
     for (let i = 0; i < inputSpecs.length; ++i) {
         const inputSpec = inputSpecs[i];
         const currentValue = input[inputSpec.name];
-        if (COMMON_NUMERIC_TYPES.includes(inputSpec.type)) {
+        // lengths of Cairo 0 arrays are not provided, so they are not passed to codecs
+        if (codecs?.has(inputSpec.type) && inputSpec.name in input) {
+            adaptComplexInput(currentValue, inputSpec, abi, adapted, codecs);
+        } else if (COMMON_NUMERIC_TYPES.includes(inputSpec.type)) {
             const errorMsg =
                 `${functionName}: Expected "${inputSpec.name}" to be a felt (Numeric); ` +
                 `got: ${typeof currentValue}`;
             if (isNumeric(currentValue)) {
+                validateIntegerRange(currentValue, inputSpec.type, `"${inputSpec.name}"`);
                 adapted.push(toNumericString(currentValue));
             } else if (!isCairo1 && inputSpec.name.endsWith(LEN_SUFFIX_DEPRECATED)) {
                 const nextSpec = inputSpecs[i + 1];
@@ -268,7 +491,7 @@ export function adaptInputUtil(
 
             adapted.push(currentValue.length.toString());
             for (const element of currentValue) {
-                adaptComplexInput(element, inputSpecArrayElement, abi, adapted);
+                adaptComplexInput(element, inputSpecArrayElement, abi, adapted, codecs);
             }
         } else if (isArray(inputSpec.type)) {
             if (!Array.isArray(currentValue)) {
@@ -279,19 +502,16 @@ export function adaptInputUtil(
             // Strip the core::Array::array prefix and suffix
             const inputSpecArrayElement = {
                 name: inputSpec.name,
-                type: inputSpec.type.slice(
-                    ARRAY_TYPE_PREFIX.length,
-                    inputSpec.type.length - ARRAY_TYPE_SUFFIX.length
-                )
+                type: getArrayElementType(inputSpec.type)
             };
 
             adapted.push(currentValue.length.toString());
             for (const element of currentValue) {
-                adaptComplexInput(element, inputSpecArrayElement, abi, adapted);
+                adaptComplexInput(element, inputSpecArrayElement, abi, adapted, codecs);
             }
         } else {
             const nestedInput = input[inputSpec.name];
-            adaptComplexInput(nestedInput, inputSpec, abi, adapted);
+            adaptComplexInput(nestedInput, inputSpec, abi, adapted, codecs);
         }
 
         lastSpec = inputSpec;
@@ -306,21 +526,27 @@ export function adaptInputUtil(
  * @param inputSpec specification on how `input` should be interpreted
  * @param abi the ABI resulting form contract compilation
  * @param adaptedArray the array where stringified args are accumulated
+ * @param codecs custom conversions of types, applied before their default adaptation
  * @returns nothing; everything is accumulated into `adaptedArray`
  */
 function adaptComplexInput(
     input: any,
     inputSpec: starknet.Argument,
     abi: starknet.Abi,
-    adaptedArray: string[]
+    adaptedArray: string[],
+    codecs?: CodecRegistry
 ): void {
     const type = inputSpec.type;
+    if (codecs) {
+        input = codecs.encode(type, input);
+    }
 
     if (input === undefined || input === null) {
         throw new StarknetPluginError(`${inputSpec.name} is ${input}`);
     }
     if (COMMON_NUMERIC_TYPES.includes(type)) {
         if (isNumeric(input)) {
+            validateIntegerRange(input, type, inputSpec.name);
             adaptedArray.push(toNumericString(input));
             return;
         }
@@ -341,6 +567,33 @@ function adaptComplexInput(
         return;
     }
 
+    if (isU512(type)) {
+        const msg = `Expected ${inputSpec.name} to be numeric; got ${input}`;
+        const values = validateAndConvertU512Input(input, msg);
+        adaptedArray.push(...values);
+        return;
+    }
+
+    if (isByteArray(type)) {
+        if (typeof input !== "string") {
+            const msg = `Expected ${inputSpec.name} to be a string; got ${input}`;
+            throw new StarknetPluginError(msg);
+        }
+        adaptedArray.push(...serializeByteArray(input).map((felt) => felt.toString()));
+        return;
+    }
+
+    if (isNonZero(type)) {
+        const valueSpec = { name: inputSpec.name, type: getNonZeroValueType(type) };
+        const valueIndex = adaptedArray.length;
+        adaptComplexInput(input, valueSpec, abi, adaptedArray, codecs);
+        // checked once adapted, so that values produced by codecs are checked as well
+        if (adaptedArray.slice(valueIndex).every((felt) => BigInt(felt) === BigInt(0))) {
+            throw new StarknetPluginError(`Expected ${inputSpec.name} to be non-zero`);
+        }
+        return;
+    }
+
     if (isTuple(type)) {
         const memberTypes = extractMemberTypes(type.slice(1, -1));
         if (isNamedTuple(type)) {
@@ -356,7 +609,7 @@ function adaptComplexInput(
             for (let i = 0; i < inputLen; i++) {
                 const memberSpec = parseNamedTuple(memberTypes[i]);
                 const nestedInput = input[memberSpec.name];
-                adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray);
+                adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray, codecs);
             }
         } else {
             if (!Array.isArray(input)) {
@@ -374,7 +627,7 @@ function adaptComplexInput(
             for (let i = 0; i < input.length; ++i) {
                 const memberSpec = { name: `${inputSpec.name}[${i}]`, type: memberTypes[i] };
                 const nestedInput = input[i];
-                adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray);
+                adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray, codecs);
             }
         }
 
@@ -384,20 +637,75 @@ function adaptComplexInput(
     if (isNamedTuple(type)) {
         const memberSpec = parseNamedTuple(type);
         const nestedInput = input[memberSpec.name];
-        adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray);
+        adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray, codecs);
+
+        return;
+    }
+
+    // e.g. nested in an enum variant
+    if (isArray(type)) {
+        if (!Array.isArray(input)) {
+            const msg = `Expected ${inputSpec.name} to be a ${type}`;
+            throw new StarknetPluginError(msg);
+        }
 
+        const elementType = getArrayElementType(type);
+        adaptedArray.push(input.length.toString());
+        input.forEach((element, i) => {
+            const elementSpec = { name: `${inputSpec.name}[${i}]`, type: elementType };
+            adaptComplexInput(element, elementSpec, abi, adaptedArray, codecs);
+        });
+        return;
+    }
+
+    const enumSpec = getEnum(type, abi);
+    if (enumSpec) {
+        adaptEnumInput(input, inputSpec, enumSpec, abi, adaptedArray, codecs);
         return;
     }
 
     // otherwise a struct
-    adaptStructInput(input, inputSpec, abi, adaptedArray);
+    adaptStructInput(input, inputSpec, abi, adaptedArray, codecs);
+}
+
+/**
+ * Adapts `input` of the form `{ variant, value }` to the index of the variant followed by the adapted value.
+ * The value is omitted for variants of the unit type, e.g. `{ variant: "None" }`.
+ */
+function adaptEnumInput(
+    input: any,
+    inputSpec: starknet.Argument,
+    enumSpec: starknet.Enum,
+    abi: starknet.Abi,
+    adaptedArray: string[],
+    codecs?: CodecRegistry
+) {
+    if (typeof input !== "object" || typeof input.variant !== "string") {
+        const msg = `Expected ${inputSpec.name} to be an enum variant, i.e. { variant, value }; got ${input}`;
+        throw new StarknetPluginError(msg);
+    }
+
+    const variantIndex = enumSpec.variants.findIndex((variant) => variant.name === input.variant);
+    if (variantIndex === -1) {
+        const variantNames = enumSpec.variants.map((variant) => variant.name).join(", ");
+        const msg = `"${inputSpec.name}": Unknown variant ${input.variant} of ${enumSpec.name}; expected one of: ${variantNames}`;
+        throw new StarknetPluginError(msg);
+    }
+
+    adaptedArray.push(variantIndex.toString());
+    const variantType = enumSpec.variants[variantIndex].type;
+    if (variantType !== UNIT_TYPE) {
+        const valueSpec = { name: `${inputSpec.name}.value`, type: variantType };
+        adaptComplexInput(input.value, valueSpec, abi, adaptedArray, codecs);
+    }
 }
 
 function adaptStructInput(
     input: any,
     inputSpec: starknet.Argument,
     abi: starknet.Abi,
-    adaptedArray: string[]
+    adaptedArray: string[],
+    codecs?: CodecRegistry
 ) {
     const type = inputSpec.type;
     if (!(type in abi)) {
@@ -421,18 +729,21 @@ function adaptStructInput(
     for (let i = 0; i < struct.members.length; ++i) {
         const memberSpec = struct.members[i];
         const nestedInput = input[memberSpec.name];
-        adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray);
+        adaptComplexInput(nestedInput, memberSpec, abi, adaptedArray, codecs);
     }
 }
 
 /**
  * resultIndex initially expected to be at value indicating array length
  */
-function adaptArray(result: bigint[], resultIndex: number, arrayType: string, abi: starknet.Abi) {
-    const elementType = arrayType.slice(
-        ARRAY_TYPE_PREFIX.length,
-        arrayType.length - ARRAY_TYPE_SUFFIX.length
-    );
+function adaptArray(
+    result: bigint[],
+    resultIndex: number,
+    arrayType: string,
+    abi: starknet.Abi,
+    codecs?: CodecRegistry
+) {
+    const elementType = getArrayElementType(arrayType);
 
     const adaptedArray = [];
 
@@ -440,7 +751,7 @@ function adaptArray(result: bigint[], resultIndex: number, arrayType: string, ab
     const expectedLength = Number(result[resultIndex++]);
     for (let i = 0; i < expectedLength; i++) {
         // Generate a struct with each element of the array and push it to `adaptedArray`
-        const ret = generateComplexOutput(result, resultIndex, elementType, abi);
+        const ret = generateComplexOutput(result, resultIndex, elementType, abi, codecs);
         adaptedArray.push(ret.generatedComplex);
         // Next index is the proper raw index returned from generating the struct, which accounts for nested structs
         resultIndex = ret.newRawIndex;
@@ -459,11 +770,13 @@ function adaptArray(result: bigint[], resultIndex: number, arrayType: string, ab
  * @param rawResult the actual result in the form of an unparsed string
  * @param outputSpecs array of starknet types in the expected function output
  * @param abi the ABI of the contract whose function was called
+ * @param codecs custom conversions of types, applied after their default adaptation
  */
 export function adaptOutputUtil(
     rawResult: string,
     outputSpecs: starknet.Argument[],
-    abi: starknet.Abi
+    abi: starknet.Abi,
+    codecs?: CodecRegistry
 ): any {
     const splitStr = rawResult.split(" ");
     const result: bigint[] = [];
@@ -477,8 +790,12 @@ export function adaptOutputUtil(
 
     for (const outputSpec of outputSpecs) {
         const currentValue = result[resultIndex];
-        if (COMMON_NUMERIC_TYPES.includes(outputSpec.type)) {
-            adapted[outputSpec.name] = currentValue;
+        if (codecs?.has(outputSpec.type)) {
+            const ret = generateComplexOutput(result, resultIndex, outputSpec.type, abi, codecs);
+            adapted[outputSpec.name] = ret.generatedComplex;
+            resultIndex = ret.newRawIndex;
+        } else if (COMMON_NUMERIC_TYPES.includes(outputSpec.type)) {
+            adapted[outputSpec.name] = convertOutputToInteger(currentValue, outputSpec.type);
             resultIndex++;
         } else if (isBool(outputSpec.type)) {
             adapted[outputSpec.name] = convertOutputToBoolean(currentValue);
@@ -497,7 +814,8 @@ export function adaptOutputUtil(
 
             // Remove * from the spec type
             const outputSpecArrayElementType = outputSpec.type.slice(0, -1);
-            const arrLength = parseInt(adapted[lastSpec.name]);
+            // read from the result, since the adapted length may have been converted by a codec
+            const arrLength = Number(result[resultIndex - 1]);
 
             const structArray = [];
 
@@ -508,7 +826,8 @@ export function adaptOutputUtil(
                     result,
                     resultIndex,
                     outputSpecArrayElementType,
-                    abi
+                    abi,
+                    codecs
                 );
                 structArray.push(ret.generatedComplex);
                 // Next index is the proper raw index returned from generating the struct, which accounts for nested structs
@@ -517,11 +836,11 @@ export function adaptOutputUtil(
             // New resultIndex is the raw index generated from the last struct
             adapted[outputSpec.name] = structArray;
         } else if (isArray(outputSpec.type)) {
-            const ret = adaptArray(result, resultIndex, outputSpec.type, abi);
+            const ret = adaptArray(result, resultIndex, outputSpec.type, abi, codecs);
             resultIndex = ret.newResultIndex;
             adapted[outputSpec.name] = ret.adaptedArray;
         } else {
-            const ret = generateComplexOutput(result, resultIndex, outputSpec.type, abi);
+            const ret = generateComplexOutput(result, resultIndex, outputSpec.type, abi, codecs);
             adapted[outputSpec.name] = ret.generatedComplex;
             resultIndex = ret.newRawIndex;
         }
@@ -544,12 +863,41 @@ export function adaptOutputUtil(
  * @param rawIndex current position within the `raw` array
  * @param type type to extract from `raw`, beginning at `rawIndex`
  * @param abi the ABI from which types are taken
+ * @param codecs custom conversions of types, applied after their default adaptation
  * @returns an object consisting of the next unused index and the generated tuple/struct itself
  */
-function generateComplexOutput(raw: bigint[], rawIndex: number, type: string, abi: starknet.Abi) {
+function generateComplexOutput(
+    raw: bigint[],
+    rawIndex: number,
+    type: string,
+    abi: starknet.Abi,
+    codecs?: CodecRegistry
+): { generatedComplex: unknown; newRawIndex: number } {
+    const ret = generateDefaultOutput(raw, rawIndex, type, abi, codecs);
+    if (codecs) {
+        ret.generatedComplex = codecs.decode(type, ret.generatedComplex);
+    }
+    return ret;
+}
+
+/**
+ * Generates the value of `type` without applying its codec. Codecs of nested types are applied.
+ */
+function generateDefaultOutput(
+    raw: bigint[],
+    rawIndex: number,
+    type: string,
+    abi: starknet.Abi,
+    codecs?: CodecRegistry
+) {
+    if (isNonZero(type)) {
+        // serialized as the wrapped value, decoded with its codec
+        return generateComplexOutput(raw, rawIndex, getNonZeroValueType(type), abi, codecs);
+    }
+
     if (COMMON_NUMERIC_TYPES.includes(type)) {
         return {
-            generatedComplex: raw[rawIndex],
+            generatedComplex: convertOutputToInteger(raw[rawIndex], type),
             newRawIndex: rawIndex + 1
         };
     }
@@ -568,6 +916,23 @@ function generateComplexOutput(raw: bigint[], rawIndex: number, type: string, ab
         };
     }
 
+    if (isU512(type)) {
+        return {
+            generatedComplex: convertOutputFromU128Limbs(raw.slice(rawIndex, rawIndex + 4)),
+            newRawIndex: rawIndex + 4
+        };
+    }
+
+    if (isByteArray(type)) {
+        const ret = deserializeByteArray(raw, rawIndex);
+        return { generatedComplex: ret.value, newRawIndex: ret.newRawIndex };
+    }
+
+    const enumSpec = getEnum(type, abi);
+    if (enumSpec) {
+        return generateEnumOutput(raw, rawIndex, enumSpec, abi, codecs);
+    }
+
     let generatedComplex: any = null;
     if (isTuple(type)) {
         const members = extractMemberTypes(type.slice(1, -1));
@@ -575,20 +940,20 @@ function generateComplexOutput(raw: bigint[], rawIndex: number, type: string, ab
             generatedComplex = {};
             for (const member of members) {
                 const memberSpec = parseNamedTuple(member);
-                const ret = generateComplexOutput(raw, rawIndex, memberSpec.type, abi);
+                const ret = generateComplexOutput(raw, rawIndex, memberSpec.type, abi, codecs);
                 generatedComplex[memberSpec.name] = ret.generatedComplex;
                 rawIndex = ret.newRawIndex;
             }
         } else {
             generatedComplex = [];
             for (const member of members) {
-                const ret = generateComplexOutput(raw, rawIndex, member, abi);
+                const ret = generateComplexOutput(raw, rawIndex, member, abi, codecs);
                 generatedComplex.push(ret.generatedComplex);
                 rawIndex = ret.newRawIndex;
             }
         }
     } else if (isArray(type)) {
-        const ret = adaptArray(raw, rawIndex, type, abi);
+        const ret = adaptArray(raw, rawIndex, type, abi, codecs);
         generatedComplex = ret.adaptedArray;
         rawIndex = ret.newResultIndex;
     } else {
@@ -600,7 +965,7 @@ function generateComplexOutput(raw: bigint[], rawIndex: number, type: string, ab
         generatedComplex = {};
         const struct = <starknet.Struct>abi[type];
         for (const member of struct.members) {
-            const ret = generateComplexOutput(raw, rawIndex, member.type, abi);
+            const ret = generateComplexOutput(raw, rawIndex, member.type, abi, codecs);
             generatedComplex[member.name] = ret.generatedComplex;
             rawIndex = ret.newRawIndex;
         }
@@ -612,6 +977,37 @@ function generateComplexOutput(raw: bigint[], rawIndex: number, type: string, ab
     };
 }
 
+/**
+ * Generates `{ variant, value }` from the variant index at `rawIndex` and the value following it.
+ * The value is omitted for variants of the unit type.
+ */
+function generateEnumOutput(
+    raw: bigint[],
+    rawIndex: number,
+    enumSpec: starknet.Enum,
+    abi: starknet.Abi,
+    codecs?: CodecRegistry
+) {
+    const variantIndex = Number(raw[rawIndex++]);
+    const variant = enumSpec.variants[variantIndex];
+    if (!variant) {
+        const msg = `Invalid variant index ${variantIndex} of ${enumSpec.name}.`;
+        throw new StarknetPluginError(msg);
+    }
+
+    const generatedComplex: { variant: string; value?: unknown } = { variant: variant.name };
+    if (variant.type !== UNIT_TYPE) {
+        const ret = generateComplexOutput(raw, rawIndex, variant.type, abi, codecs);
+        generatedComplex.value = ret.generatedComplex;
+        rawIndex = ret.newRawIndex;
+    }
+
+    return {
+        generatedComplex,
+        newRawIndex: rawIndex
+    };
+}
+
 /**
  * Reproduces felt response formating corresponding to the Starknet CLI contract call.
  * Based on https://github.com/starkware-libs/cairo-lang/blob/v0.12.1a0/src/starkware/cairo/lang/tracer/tracer_data.py#L261.
@@ -0,0 +1,182 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+import { ABI_SUFFIX, ARTIFACT_INDEX_FILE_NAME, CAIRO1_ASSEMBLY_SUFFIX } from "./constants";
+import { getAmbiguousPathError, traverseFiles } from "./utils";
+
+/**
+ * Artifacts of a compiled contract, with paths relative to the artifacts directory
+ */
+interface ArtifactIndexEntry {
+    metadataPath: string;
+    abiPath: string;
+    casmPath?: string;
+    // Hash of the metadata file, used for telling if the class hash is up to date
+    contentHash: string;
+    // Stored once computed
+    classHash?: string;
+}
+
+/**
+ * Artifact index entries by contract path relative to the artifacts directory, without extension
+ * (e.g. `contracts/contract` for `contracts/contract.cairo/contract.json`)
+ */
+type ArtifactIndex = Record<string, ArtifactIndexEntry>;
+
+/**
+ * Artifacts of a compiled contract, with absolute paths
+ */
+export interface IndexedArtifacts {
+    metadataPath: string;
+    abiPath: string;
+    casmPath?: string;
+    classHash?: string;
+}
+
+// Indices loaded in this process, by artifacts directory
+const loadedIndices: Map<string, { mtimeMs: number; index: ArtifactIndex }> = new Map();
+
+function getIndexPath(artifactsPath: string) {
+    return path.join(artifactsPath, ARTIFACT_INDEX_FILE_NAME);
+}
+
+function hashFile(filePath: string) {
+    return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * Returns the index of artifacts in `artifactsPath`; the index file is only read again if it was modified.
+ * If there is no index file, an empty index is returned.
+ */
+function loadArtifactIndex(artifactsPath: string): ArtifactIndex {
+    const indexPath = getIndexPath(artifactsPath);
+    if (!fs.existsSync(indexPath)) {
+        return {};
+    }
+
+    const { mtimeMs } = fs.statSync(indexPath);
+    const loaded = loadedIndices.get(artifactsPath);
+    if (loaded?.mtimeMs === mtimeMs) {
+        return loaded.index;
+    }
+
+    const index: ArtifactIndex = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+    loadedIndices.set(artifactsPath, { mtimeMs, index });
+    return index;
+}
+
+/**
+ * Returns a value which changes whenever the index of artifacts in `artifactsPath` is rewritten,
+ * or `undefined` if there is no index.
+ */
+export function getArtifactIndexVersion(artifactsPath: string): number | undefined {
+    const indexPath = getIndexPath(artifactsPath);
+    return fs.existsSync(indexPath) ? fs.statSync(indexPath).mtimeMs : undefined;
+}
+
+function saveArtifactIndex(artifactsPath: string, index: ArtifactIndex) {
+    const indexPath = getIndexPath(artifactsPath);
+    fs.writeFileSync(indexPath, JSON.stringify(index, null, 4) + "\n");
+    loadedIndices.set(artifactsPath, { mtimeMs: fs.statSync(indexPath).mtimeMs, index });
+}
+
+/**
+ * Indexes all contract artifacts in `artifactsPath`, so that contracts can be loaded without traversing it.
+ * Class hashes of unchanged artifacts are carried over from the existing index.
+ */
+export async function writeArtifactIndex(artifactsPath: string): Promise<void> {
+    if (!fs.existsSync(artifactsPath)) {
+        return;
+    }
+
+    const oldIndex = loadArtifactIndex(artifactsPath);
+    const index: ArtifactIndex = {};
+
+    // artifacts are stored as <CONTRACT_PATH>.cairo/<CONTRACT_NAME>.json
+    for (const metadataPath of await traverseFiles(artifactsPath, "*.cairo/*.json")) {
+        const artifactDir = path.dirname(metadataPath);
+        const contractName = path.basename(artifactDir, ".cairo");
+        const abiPath = path.join(artifactDir, `${contractName}${ABI_SUFFIX}`);
+        if (path.basename(metadataPath) !== `${contractName}.json` || !fs.existsSync(abiPath)) {
+            continue;
+        }
+
+        const casmPath = path.join(artifactDir, `${contractName}${CAIRO1_ASSEMBLY_SUFFIX}`);
+        const contractPath = path.relative(artifactsPath, artifactDir).replace(/\.cairo$/, "");
+        const contentHash = hashFile(metadataPath);
+        const oldEntry = oldIndex[contractPath];
+
+        index[contractPath] = {
+            metadataPath: path.relative(artifactsPath, metadataPath),
+            abiPath: path.relative(artifactsPath, abiPath),
+            casmPath: fs.existsSync(casmPath) ? path.relative(artifactsPath, casmPath) : undefined,
+            contentHash,
+            classHash: oldEntry?.contentHash === contentHash ? oldEntry.classHash : undefined
+        };
+    }
+
+    saveArtifactIndex(artifactsPath, index);
+}
+
+function toMetadataSearchTarget(contractPath: string) {
+    return path.join(`${contractPath}.cairo`, `${path.basename(contractPath)}.json`);
+}
+
+/**
+ * Looks up the artifacts of `contractPath` in the index the same way they would be looked up
+ * by traversing the artifacts directory: by the exact path, or else by the path suffix.
+ * @param artifactsPath the artifacts directory
+ * @param contractPath the contract path without extension
+ * @returns the artifacts, or `null` if they are not indexed
+ */
+export function findIndexedArtifacts(
+    artifactsPath: string,
+    contractPath: string
+): IndexedArtifacts | null {
+    const index = loadArtifactIndex(artifactsPath);
+
+    const exactPath = path.relative(artifactsPath, path.resolve(artifactsPath, contractPath));
+    const searchTarget = toMetadataSearchTarget(contractPath);
+    const matchingPaths = index[exactPath]
+        ? [exactPath]
+        : Object.keys(index).filter((indexedPath) =>
+              toMetadataSearchTarget(indexedPath).endsWith(searchTarget)
+          );
+
+    if (matchingPaths.length > 1) {
+        throw getAmbiguousPathError(matchingPaths.map((p) => index[p].metadataPath));
+    }
+
+    const entry = index[matchingPaths[0]];
+    if (!entry || !fs.existsSync(path.join(artifactsPath, entry.metadataPath))) {
+        return null;
+    }
+
+    return {
+        metadataPath: path.join(artifactsPath, entry.metadataPath),
+        abiPath: path.join(artifactsPath, entry.abiPath),
+        casmPath: entry.casmPath && path.join(artifactsPath, entry.casmPath),
+        classHash: entry.classHash
+    };
+}
+
+/**
+ * Stores the class hash of the contract whose metadata is in `metadataPath`,
+ * if the contract is indexed and its metadata didn't change since indexing.
+ */
+export function storeClassHash(artifactsPath: string, metadataPath: string, classHash: string) {
+    const index = loadArtifactIndex(artifactsPath);
+    const relativeMetadataPath = path.relative(artifactsPath, metadataPath);
+
+    for (const entry of Object.values(index)) {
+        if (
+            entry.metadataPath === relativeMetadataPath &&
+            entry.contentHash === hashFile(metadataPath)
+        ) {
+            entry.classHash = classHash;
+            saveArtifactIndex(artifactsPath, index);
+            return;
+        }
+    }
+}
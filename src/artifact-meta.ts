@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+import { version } from "../package.json";
+import { ARTIFACT_META_SUFFIX } from "./constants";
+import { ContractData, SourceType } from "./recompiler";
+
+/**
+ * The compiler which produced an artifact
+ */
+export interface CompilerDescription {
+    version: string;
+    // the directory of the compiler binaries, if known
+    binDir?: string;
+    // the Docker image containing the compiler, if dockerized
+    image?: string;
+}
+
+/**
+ * Describes how the artifacts of a contract were produced, so that they can be reproduced and checked for staleness.
+ * Stored as `<CONTRACT_NAME>.meta.json` next to the other artifacts of the contract.
+ */
+export interface ArtifactMeta {
+    pluginVersion: string;
+    // ISO 8601 time of compilation
+    timestamp: string;
+    // the compiled file, or the Scarb.toml of the built package, relative to the project root
+    source: string;
+    sourceType: SourceType;
+    // hash of the source, or of the whole package if built with Scarb
+    sourceHash: string;
+    // hashes of the files imported by the source, by path relative to the project root
+    dependencies?: Record<string, string>;
+    compiler: CompilerDescription;
+    // the options the source was compiled with, including the settings matched in `starknet.compilerSettings`
+    options: Record<string, unknown>;
+    scarbProfile?: string;
+    // hashes of the artifacts of the contract, by file name
+    artifacts: Record<string, string>;
+}
+
+function hashFile(filePath: string) {
+    return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+function relativizeKeys(root: string, record: Record<string, string> = {}) {
+    const relativized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(record)) {
+        relativized[path.relative(root, key)] = value;
+    }
+    return relativized;
+}
+
+/**
+ * @param metadataPath the path of the main artifact of a contract, e.g. `contract.cairo/contract.json`
+ * @returns the path of the meta file of the contract, e.g. `contract.cairo/contract.meta.json`
+ */
+export function getArtifactMetaPath(metadataPath: string): string {
+    return metadataPath.replace(/\.json$/, ARTIFACT_META_SUFFIX);
+}
+
+/**
+ * Reads the compiler version which compilers store in artifacts,
+ * from the CASM of a Cairo 1 contract, or else from the program of a Cairo 0 contract.
+ */
+export function readArtifactCompilerVersion(metadataPath: string, casmPath?: string): string {
+    if (casmPath) {
+        return JSON.parse(fs.readFileSync(casmPath, "utf-8")).compiler_version;
+    }
+    return JSON.parse(fs.readFileSync(metadataPath, "utf-8")).program?.compiler_version;
+}
+
+/**
+ * Writes the meta file of the contract whose artifacts are provided.
+ * @param root the project root, relative to which paths are recorded
+ * @param metadataPath the main artifact of the contract, next to which the meta file is written
+ * @param artifactPaths all artifacts of the contract, including the main one
+ * @param cacheEntry the Recompiler cache entry of the source, holding its hashes
+ * @param meta the rest of the recorded information
+ */
+export function writeArtifactMeta(
+    root: string,
+    metadataPath: string,
+    artifactPaths: string[],
+    cacheEntry: ContractData,
+    meta: Pick<ArtifactMeta, "source" | "compiler" | "options" | "scarbProfile">
+) {
+    const artifacts: Record<string, string> = {};
+    for (const artifactPath of artifactPaths) {
+        artifacts[path.basename(artifactPath)] = hashFile(artifactPath);
+    }
+
+    const dependencies = cacheEntry.dependencies && relativizeKeys(root, cacheEntry.dependencies);
+    const artifactMeta: ArtifactMeta = {
+        pluginVersion: version,
+        timestamp: new Date().toISOString(),
+        source: path.relative(root, meta.source),
+        sourceType: cacheEntry.sourceType,
+        sourceHash: cacheEntry.contentHash,
+        dependencies,
+        compiler: meta.compiler,
+        options: meta.options,
+        scarbProfile: meta.scarbProfile,
+        artifacts
+    };
+    fs.writeFileSync(
+        getArtifactMetaPath(metadataPath),
+        JSON.stringify(artifactMeta, null, 4) + "\n"
+    );
+}
+
+/**
+ * @param metadataPath the path of the main artifact of a contract
+ * @returns the meta of the contract, or `undefined` if it was compiled without recording it
+ */
+export function loadArtifactMeta(metadataPath: string): ArtifactMeta | undefined {
+    const metaPath = getArtifactMetaPath(metadataPath);
+    if (!fs.existsSync(metaPath)) {
+        return undefined;
+    }
+    return JSON.parse(fs.readFileSync(metaPath, "utf-8"));
+}
+
+/**
+ * Finds the ways in which the artifacts of a contract don't correspond to its recorded meta or to the current sources.
+ * @param root the project root
+ * @param artifactDir the directory containing the artifacts of the contract
+ * @param meta the recorded meta of the contract
+ * @param currentHashes the current hashes of the source and of its imports, or `null` if the source doesn't exist
+ * @returns descriptions of the problems, empty if the artifacts are up to date
+ */
+export function getArtifactProblems(
+    root: string,
+    artifactDir: string,
+    meta: ArtifactMeta,
+    currentHashes: Pick<ContractData, "contentHash" | "dependencies"> | null
+): string[] {
+    const problems: string[] = [];
+
+    if (!currentHashes) {
+        problems.push(`source ${meta.source} no longer exists`);
+    } else {
+        if (currentHashes.contentHash !== meta.sourceHash) {
+            problems.push(`source ${meta.source} changed since compilation`);
+        }
+
+        const recordedDependencies = meta.dependencies || {};
+        const currentDependencies = relativizeKeys(root, currentHashes.dependencies);
+        const dependencyFiles = new Set([
+            ...Object.keys(recordedDependencies),
+            ...Object.keys(currentDependencies)
+        ]);
+        for (const dependency of dependencyFiles) {
+            if (recordedDependencies[dependency] !== currentDependencies[dependency]) {
+                problems.push(`imported file ${dependency} changed since compilation`);
+            }
+        }
+    }
+
+    for (const [fileName, recordedHash] of Object.entries(meta.artifacts)) {
+        const artifactPath = path.join(artifactDir, fileName);
+        if (!fs.existsSync(artifactPath)) {
+            problems.push(`artifact ${fileName} is missing`);
+        } else if (hashFile(artifactPath) !== recordedHash) {
+            problems.push(`artifact ${fileName} was modified after compilation`);
+        }
+    }
+
+    return problems;
+}
@@ -0,0 +1,98 @@
+import { StarknetPluginError } from "./starknet-plugin-error";
+import { ByteArray } from "./starknet-types";
+
+export const BYTE_ARRAY_TYPE = "core::byte_array::ByteArray";
+
+// the number of bytes stored in a single felt of a ByteArray
+const BYTES_PER_WORD = 31;
+
+function bytesToBigInt(bytes: Buffer): bigint {
+    return bytes.length ? BigInt("0x" + bytes.toString("hex")) : BigInt(0);
+}
+
+function bigIntToBytes(value: bigint, length: number): Buffer {
+    if (value === BigInt(0)) {
+        return Buffer.alloc(length);
+    }
+    const hex = value.toString(16).padStart(2 * length, "0");
+    if (hex.length > 2 * length) {
+        throw new StarknetPluginError(`Value ${value} doesn't fit into ${length} bytes.`);
+    }
+    return Buffer.from(hex, "hex");
+}
+
+/**
+ * Converts `value` to a ByteArray, encoding it as UTF-8.
+ */
+export function stringToByteArray(value: string): ByteArray {
+    if (typeof value !== "string") {
+        throw new StarknetPluginError(`Expected a string; got ${value}`);
+    }
+
+    const bytes = Buffer.from(value, "utf-8");
+    const pendingWordStart = bytes.length - (bytes.length % BYTES_PER_WORD);
+
+    const data: bigint[] = [];
+    for (let i = 0; i < pendingWordStart; i += BYTES_PER_WORD) {
+        data.push(bytesToBigInt(bytes.subarray(i, i + BYTES_PER_WORD)));
+    }
+
+    return {
+        data,
+        pending_word: bytesToBigInt(bytes.subarray(pendingWordStart)),
+        pending_word_len: bytes.length - pendingWordStart
+    };
+}
+
+/**
+ * Converts a ByteArray to the string it holds, decoding it as UTF-8. The opposite of {@link stringToByteArray}.
+ * @param byteArray numeric members are accepted as numbers, bigints or strings, e.g. as decoded from events
+ */
+export function byteArrayToString(byteArray: {
+    data: (bigint | number | string)[];
+    pending_word: bigint | number | string;
+    pending_word_len: bigint | number | string;
+}): string {
+    const pendingWordLength = Number(byteArray.pending_word_len);
+    if (!(pendingWordLength >= 0 && pendingWordLength < BYTES_PER_WORD)) {
+        const msg = `Invalid pending word length of ByteArray: ${byteArray.pending_word_len}`;
+        throw new StarknetPluginError(msg);
+    }
+
+    const chunks = byteArray.data.map((word) => bigIntToBytes(BigInt(word), BYTES_PER_WORD));
+    chunks.push(bigIntToBytes(BigInt(byteArray.pending_word), pendingWordLength));
+    return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * @returns the felts a ByteArray holding `value` is serialized to
+ */
+export function serializeByteArray(value: string): bigint[] {
+    const byteArray = stringToByteArray(value);
+    return [
+        BigInt(byteArray.data.length),
+        ...byteArray.data,
+        byteArray.pending_word,
+        BigInt(byteArray.pending_word_len)
+    ];
+}
+
+/**
+ * Deserializes a ByteArray from `raw`, starting at `rawIndex`.
+ * @returns the string held by the ByteArray and the index following it
+ */
+export function deserializeByteArray(
+    raw: bigint[],
+    rawIndex: number
+): { value: string; newRawIndex: number } {
+    const dataLength = Number(raw[rawIndex++]);
+    const data = raw.slice(rawIndex, rawIndex + dataLength);
+    rawIndex += dataLength;
+
+    const value = byteArrayToString({
+        data,
+        pending_word: raw[rawIndex],
+        pending_word_len: raw[rawIndex + 1]
+    });
+    return { value, newRawIndex: rawIndex + 2 };
+}
@@ -1,61 +1,107 @@
-import { BindsMap, HardhatDocker, ProcessResult } from "@nomiclabs/hardhat-docker";
+import { HardhatDocker, ProcessResult } from "@nomiclabs/hardhat-docker";
+import { spawn, spawnSync } from "child_process";
+import exitHook from "exit-hook";
 import shell from "shelljs";
 import { Image } from "@nomiclabs/hardhat-docker";
 
+import { StarknetPluginError } from "./starknet-plugin-error";
+
 export const exec = (args: string) => {
-    const result = shell.exec(args, {
-        silent: true
+    // asynchronous, so that multiple compilations can be run concurrently
+    return new Promise<ProcessResult>((resolve) => {
+        shell.exec(args, { silent: true, async: true }, (code, stdout, stderr) => {
+            resolve({
+                statusCode: code,
+                stdout: Buffer.from(stderr),
+                stderr: Buffer.from(stdout)
+            } as ProcessResult);
+        });
     });
-
-    return {
-        statusCode: result.code,
-        stdout: Buffer.from(result.stderr),
-        stderr: Buffer.from(result.stdout)
-    } as ProcessResult;
 };
 
+/**
+ * Runs Cairo 1 compilation jobs in a single long-lived container,
+ * which is started on the first job and killed when the process exits.
+ */
 export class DockerCairo1Compiler {
-    image: Image;
-    sources: string[];
-    compilerArgs: string[];
-
-    constructor(image: Image, sources: string[], cairo1CompilerArgs?: string[]) {
-        this.image = image;
-        this.sources = sources;
-        this.compilerArgs = cairo1CompilerArgs;
+    private containerName: string;
+    private started: Promise<void>;
+
+    /**
+     * @param image the Docker image containing the compiler
+     * @param sources the paths to be mirrored in the container
+     */
+    constructor(private image: Image, private sources: string[]) {
+        // to make name unique and allow multiple simultaneous instances
+        this.containerName = "cairo1-compiler-" + Math.random().toString().slice(2);
     }
 
-    protected getDockerArgs(): BindsMap {
-        const binds: BindsMap = {};
+    protected getDockerArgs(): string[] {
+        const volumes: string[] = [];
         for (const source of this.sources) {
-            binds[source] = source;
+            volumes.push("-v", `${source}:${source}`);
         }
 
-        return binds;
+        return volumes;
     }
 
-    protected getContainerArgs(): string[] {
-        return ["/bin/sh", "-c", this.compilerArgs.join(" ")];
+    private ensureStarted(): Promise<void> {
+        // memoized so that concurrent jobs don't start multiple containers
+        if (!this.started) {
+            this.started = this.start();
+        }
+        return this.started;
     }
 
-    async compileCairo1(): Promise<ProcessResult> {
+    private async start(): Promise<void> {
         const docker = await HardhatDocker.create();
         if (!(await docker.hasPulledImage(this.image))) {
             await docker.pullImage(this.image);
         }
 
-        const { statusCode, stdout, stderr } = await docker.runContainer(
-            this.image,
-            this.getContainerArgs(),
-            {
-                binds: this.getDockerArgs()
-            }
-        );
-
-        return {
-            statusCode,
-            stdout: Buffer.from(stdout.toString()),
-            stderr: Buffer.from(stderr.toString())
-        } as ProcessResult;
+        const formattedImage = `${this.image.repository}:${this.image.tag}`;
+        const execution = spawnSync("docker", [
+            "run",
+            "--rm",
+            "--detach",
+            ...["--name", this.containerName],
+            ...this.getDockerArgs(),
+            formattedImage,
+            // keeps the container alive until killed
+            ...["tail", "-f", "/dev/null"]
+        ]);
+        if (execution.status !== 0) {
+            const msg = `Could not start the Cairo 1 compiler container: ${execution.stderr?.toString()}`;
+            throw new StarknetPluginError(msg);
+        }
+
+        exitHook(() => {
+            spawnSync("docker", ["kill", this.containerName]);
+        });
+    }
+
+    /**
+     * Executes the compiler command inside the container.
+     * @param command the compiler binary followed by its arguments
+     */
+    async compileCairo1(command: string[]): Promise<ProcessResult> {
+        await this.ensureStarted();
+
+        return new Promise((resolve, reject) => {
+            const stdout: Buffer[] = [];
+            const stderr: Buffer[] = [];
+
+            const child = spawn("docker", ["exec", this.containerName, ...command]);
+            child.stdout.on("data", (chunk) => stdout.push(chunk));
+            child.stderr.on("data", (chunk) => stderr.push(chunk));
+            child.on("error", reject);
+            child.on("close", (statusCode) => {
+                resolve({
+                    statusCode,
+                    stdout: Buffer.concat(stdout),
+                    stderr: Buffer.concat(stderr)
+                });
+            });
+        });
     }
 }
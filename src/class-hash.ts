@@ -0,0 +1,242 @@
+import fs from "fs";
+import { ec, hash, json, shortString } from "starknet";
+
+/**
+ * Implements class hash computation as done by cairo-lang, so that contracts can be declared and deployed
+ * without a Python environment.
+ */
+
+// Version of the deprecated (Cairo 0) contract class hash
+const DEPRECATED_API_VERSION = 0;
+const SIERRA_VERSION_PREFIX = "CONTRACT_CLASS_V";
+const COMPILED_CLASS_VERSION = "COMPILED_CLASS_V1";
+
+type NestedIntList = number | NestedIntList[];
+
+interface DeprecatedEntryPoint {
+    selector: string;
+    offset: string | number;
+}
+
+interface SierraEntryPoint {
+    selector: string;
+    function_idx: number;
+}
+
+interface CompiledEntryPoint {
+    selector: string;
+    offset: number;
+    builtins: string[];
+}
+
+type EntryPointsByType<T> = {
+    EXTERNAL: T[];
+    L1_HANDLER: T[];
+    CONSTRUCTOR: T[];
+};
+
+type JsonValue = string | number | bigint | boolean | null | JsonValue[] | JsonObject;
+type JsonObject = { [key: string]: JsonValue };
+
+// integer keys (e.g. program counters of hints) are sorted by value, as they are in Python before dumping
+function compareKeys(key1: string, key2: string): number {
+    if (/^\d+$/.test(key1) && /^\d+$/.test(key2)) {
+        return Number(key1) - Number(key2);
+    }
+    return key1 < key2 ? -1 : key1 > key2 ? 1 : 0;
+}
+
+function readJson(filePath: string) {
+    // parsed losslessly, since Cairo 0 programs contain integers exceeding Number.MAX_SAFE_INTEGER
+    return json.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+function toHex(value: bigint | string): string {
+    return "0x" + BigInt(value).toString(16);
+}
+
+/**
+ * Serializes `value` the same way as Python's `json.dumps` with default arguments:
+ * with spaces after separators and with non-ASCII characters escaped.
+ */
+function pythonJsonDumps(value: JsonValue, sortKeys = false): string {
+    if (value === null) {
+        return "null";
+    }
+
+    if (typeof value === "string") {
+        return JSON.stringify(value).replace(
+            /[\u007f-\uffff]/g,
+            (char) => "\\u" + char.charCodeAt(0).toString(16).padStart(4, "0")
+        );
+    }
+
+    if (typeof value !== "object") {
+        return value.toString();
+    }
+
+    if (Array.isArray(value)) {
+        return `[${value.map((element) => pythonJsonDumps(element, sortKeys)).join(", ")}]`;
+    }
+
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+    if (sortKeys) {
+        keys.sort(compareKeys);
+    }
+    const members = keys.map(
+        (key) => `${pythonJsonDumps(key)}: ${pythonJsonDumps(value[key], sortKeys)}`
+    );
+    return `{${members.join(", ")}}`;
+}
+
+function encodeShortString(value: string): bigint {
+    return BigInt(shortString.encodeShortString(value));
+}
+
+/**
+ * The hash of the ABI and the program without debug info, with some fields omitted
+ * for backward compatibility, as in cairo-lang's `compute_deprecated_hinted_class_hash`.
+ */
+function computeDeprecatedHintedClassHash(contract: JsonObject): bigint {
+    const program: JsonObject = { ...(<JsonObject>contract.program), debug_info: null };
+
+    const attributes = <JsonObject[]>program.attributes;
+    if (!attributes?.length) {
+        delete program.attributes;
+    } else {
+        program.attributes = attributes.map((attribute) => {
+            const compatibleAttribute = { ...attribute };
+            if (!(<JsonValue[]>attribute.accessible_scopes).length) {
+                delete compatibleAttribute.accessible_scopes;
+            }
+            if (attribute.flow_tracking_data === null) {
+                delete compatibleAttribute.flow_tracking_data;
+            }
+            return compatibleAttribute;
+        });
+    }
+
+    const serialized = pythonJsonDumps({ abi: contract.abi, program }, true);
+    return hash.starknetKeccak(serialized);
+}
+
+function hashDeprecatedEntryPoints(entryPoints: DeprecatedEntryPoint[]): string {
+    return hash.computeHashOnElements(
+        entryPoints.flatMap((entryPoint) => [entryPoint.selector, entryPoint.offset])
+    );
+}
+
+/**
+ * Computes the class hash of a Cairo 0 contract.
+ * @param contractPath the path of the compiled contract
+ * @returns the hex class hash
+ */
+export function computeDeprecatedClassHash(contractPath: string): string {
+    const contract: JsonObject = readJson(contractPath);
+    const program = <JsonObject>contract.program;
+    const entryPoints = <EntryPointsByType<DeprecatedEntryPoint>>(
+        (<unknown>contract.entry_points_by_type)
+    );
+
+    const classHash = hash.computeHashOnElements([
+        DEPRECATED_API_VERSION,
+        hashDeprecatedEntryPoints(entryPoints.EXTERNAL),
+        hashDeprecatedEntryPoints(entryPoints.L1_HANDLER),
+        hashDeprecatedEntryPoints(entryPoints.CONSTRUCTOR),
+        hash.computeHashOnElements((<string[]>program.builtins).map(encodeShortString)),
+        computeDeprecatedHintedClassHash(contract),
+        hash.computeHashOnElements(<string[]>program.data)
+    ]);
+    return toHex(classHash);
+}
+
+function hashSierraEntryPoints(entryPoints: SierraEntryPoint[]): bigint {
+    return ec.starkCurve.poseidonHashMany(
+        entryPoints.flatMap((entryPoint) => [
+            BigInt(entryPoint.selector),
+            BigInt(entryPoint.function_idx)
+        ])
+    );
+}
+
+/**
+ * Computes the class hash of a Cairo 1 contract.
+ * @param sierraPath the path of the contract compiled to Sierra
+ * @returns the hex class hash
+ */
+export function computeSierraClassHash(sierraPath: string): string {
+    const sierra: JsonObject = readJson(sierraPath);
+    const entryPoints = <EntryPointsByType<SierraEntryPoint>>(<unknown>sierra.entry_points_by_type);
+
+    // cairo-lang hashes the ABI as it is after loading it to a string
+    const abi = typeof sierra.abi === "string" ? sierra.abi : pythonJsonDumps(sierra.abi);
+
+    const classHash = ec.starkCurve.poseidonHashMany([
+        encodeShortString(SIERRA_VERSION_PREFIX + sierra.contract_class_version),
+        hashSierraEntryPoints(entryPoints.EXTERNAL),
+        hashSierraEntryPoints(entryPoints.L1_HANDLER),
+        hashSierraEntryPoints(entryPoints.CONSTRUCTOR),
+        hash.starknetKeccak(abi),
+        ec.starkCurve.poseidonHashMany((<string[]>sierra.sierra_program).map(BigInt))
+    ]);
+    return toHex(classHash);
+}
+
+function hashCompiledEntryPoints(entryPoints: CompiledEntryPoint[]): bigint {
+    return ec.starkCurve.poseidonHashMany(
+        entryPoints.flatMap((entryPoint) => [
+            BigInt(entryPoint.selector),
+            BigInt(entryPoint.offset),
+            ec.starkCurve.poseidonHashMany(entryPoint.builtins.map(encodeShortString))
+        ])
+    );
+}
+
+/**
+ * Hashes the bytecode split into (possibly nested) segments, as specified by the compiler.
+ * A segment which is further split is hashed as 1 + the hash of the lengths and hashes of its parts.
+ * @returns the length and the hash of the bytecode part starting at `offset`
+ */
+function hashBytecodeSegment(
+    bytecode: bigint[],
+    segmentLengths: NestedIntList,
+    offset: number
+): { length: number; hash: bigint } {
+    if (typeof segmentLengths === "number") {
+        const segment = bytecode.slice(offset, offset + segmentLengths);
+        return { length: segmentLengths, hash: ec.starkCurve.poseidonHashMany(segment) };
+    }
+
+    const hashedParts: bigint[] = [];
+    let length = 0;
+    for (const partLengths of segmentLengths) {
+        const part = hashBytecodeSegment(bytecode, partLengths, offset + length);
+        hashedParts.push(BigInt(part.length), part.hash);
+        length += part.length;
+    }
+
+    return { length, hash: ec.starkCurve.poseidonHashMany(hashedParts) + BigInt(1) };
+}
+
+/**
+ * Computes the compiled class hash of a Cairo 1 contract, which is required for declaring it.
+ * @param casmPath the path of the contract compiled to CASM
+ * @returns the hex compiled class hash
+ */
+export function computeCompiledClassHash(casmPath: string): string {
+    const casm: JsonObject = readJson(casmPath);
+    const entryPoints = <EntryPointsByType<CompiledEntryPoint>>(<unknown>casm.entry_points_by_type);
+    const bytecode = (<string[]>casm.bytecode).map(BigInt);
+
+    // bytecode segmentation is specified by newer compilers
+    const segmentLengths = <NestedIntList>casm.bytecode_segment_lengths ?? bytecode.length;
+
+    const compiledClassHash = ec.starkCurve.poseidonHashMany([
+        encodeShortString(COMPILED_CLASS_VERSION),
+        hashCompiledEntryPoints(entryPoints.EXTERNAL),
+        hashCompiledEntryPoints(entryPoints.L1_HANDLER),
+        hashCompiledEntryPoints(entryPoints.CONSTRUCTOR),
+        hashBytecodeSegment(bytecode, segmentLengths, 0).hash
+    ]);
+    return toHex(compiledClassHash);
+}
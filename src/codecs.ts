@@ -0,0 +1,66 @@
+import { StarknetPluginError } from "./starknet-plugin-error";
+
+/**
+ * Custom conversion of a Cairo type, applied on top of the default adaptation of the type.
+ * E.g. a codec of a struct converts between a custom value and the object holding the struct members.
+ */
+export interface TypeCodec<T = unknown> {
+    /**
+     * Converts a user-provided value to the value the type is adapted from by default.
+     * If omitted, values are adapted without conversion.
+     */
+    encode?(value: T): unknown;
+
+    /**
+     * Converts the value the type is adapted to by default to the value returned to the user.
+     * If omitted, values are returned without conversion.
+     */
+    decode?(value: unknown): T;
+}
+
+/**
+ * Holds the codecs of Cairo types, used when adapting function arguments and results and when decoding events.
+ */
+export class CodecRegistry {
+    private codecs: Map<string, TypeCodec> = new Map();
+
+    /**
+     * Registers `codec` for `type`, replacing the codec previously registered for it.
+     * @param type the full path of the Cairo type, as in the ABI, e.g. `core::starknet::eth_address::EthAddress`
+     * @param codec the conversion of values of `type`
+     */
+    register<T>(type: string, codec: TypeCodec<T>) {
+        if (!codec?.encode && !codec?.decode) {
+            const msg = `Codec of ${type} must provide at least one of encode and decode.`;
+            throw new StarknetPluginError(msg);
+        }
+        this.codecs.set(type, codec);
+    }
+
+    /**
+     * @returns `true` if a codec was registered for `type`
+     */
+    unregister(type: string): boolean {
+        return this.codecs.delete(type);
+    }
+
+    has(type: string): boolean {
+        return this.codecs.has(type);
+    }
+
+    /**
+     * Converts `value` using the codec of `type`. Values of types without a codec are returned unchanged.
+     */
+    encode(type: string, value: unknown): unknown {
+        const codec = this.codecs.get(type);
+        return codec?.encode ? codec.encode(value) : value;
+    }
+
+    /**
+     * Converts `value` using the codec of `type`. Values of types without a codec are returned unchanged.
+     */
+    decode(type: string, value: unknown): unknown {
+        const codec = this.codecs.get(type);
+        return codec?.decode ? codec.decode(value) : value;
+    }
+}
@@ -6,13 +6,19 @@ export const ABI_SUFFIX = "_abi.json";
 // Cairo 1 compilation
 export const CAIRO1_ASSEMBLY_SUFFIX = ".casm";
 export const CAIRO1_SIERRA_SUFFIX = ".json";
+export const ARTIFACT_META_SUFFIX = ".meta.json";
 export const CAIRO1_COMPILE_BIN = "starknet-compile";
 export const CAIRO1_SIERRA_COMPILE_BIN = "starknet-sierra-compile";
 export const DOCKER_HOST_BIN_PATH = "/usr/local/bin/target/release";
 export const SUPPORTED_SCARB_VERSION = config["SCARB_VERSION"];
+export const SCARB_CONFIG_FILE_NAME = "Scarb.toml";
+export const SCARB_DEFAULT_PROFILE = "dev";
+export const SCARB_MAIN_ARTIFACT_SUFFIX = ".starknet_artifacts.json";
+export const SCARB_FEATURES_MIN_VERSION = "2.5.0";
 
 export const DEFAULT_STARKNET_SOURCES_PATH = "contracts";
 export const DEFAULT_STARKNET_ARTIFACTS_PATH = "starknet-artifacts";
+export const DEFAULT_STARKNET_TYPINGS_PATH = "starknet-typings";
 export const DEFAULT_STARKNET_ACCOUNT_PATH = "~/.starknet_accounts";
 export const CAIRO_CLI_DOCKER_REPOSITORY = "shardlabs/cairo-cli";
 export const CAIRO_CLI_DEFAULT_DOCKER_IMAGE_TAG = config["CAIRO_LANG"];
@@ -26,6 +32,12 @@ export const INTEGRATED_DEVNET_URL = "http://127.0.0.1:5050";
 export const CAIRO_CLI_DOCKER_REPOSITORY_WITH_TAG = `${CAIRO_CLI_DOCKER_REPOSITORY}:${CAIRO_CLI_DEFAULT_DOCKER_IMAGE_TAG}`;
 
 export const INTERNAL_ARTIFACTS_DIR = "contract-artifacts";
+export const ARTIFACT_INDEX_FILE_NAME = "artifacts-index.json";
+export const DEFAULT_DIAGNOSTICS_FILE_NAME = "starknet-diagnostics";
+// the largest CASM bytecode accepted on declare
+export const DEFAULT_MAX_CASM_BYTECODE_LENGTH = 81920;
+// the subtask run by Hardhat's `compile` if `starknet.compileWithHardhat` is set
+export const TASK_COMPILE_STARKNET = "compile:starknet";
 
 export const ALPHA_TESTNET = "alpha-goerli";
 export const ALPHA_TESTNET_2 = "alpha-goerli2";
@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+
+import { CAIRO1_ASSEMBLY_SUFFIX, CAIRO1_SIERRA_SUFFIX, INTERNAL_ARTIFACTS_DIR } from "./constants";
+import { ContractSizeLimits } from "./types/starknet";
+import { traverseFiles } from "./utils";
+
+/**
+ * Size metrics of a Cairo 1 contract, as relevant for declaring it
+ */
+export interface ContractSize {
+    // artifact directory relative to the artifacts directory, e.g. `contracts/contract.cairo`
+    contract: string;
+    // number of felts in the Sierra program
+    sierraProgramLength: number;
+    // number of felts in the CASM bytecode
+    casmBytecodeLength: number;
+    // number of bytes of the gzipped contract class, as submitted on declare
+    compressedClassSize: number;
+    entryPoints: {
+        external: number;
+        l1Handler: number;
+        constructor: number;
+    };
+}
+
+const METRIC_DESCRIPTIONS: Record<keyof ContractSizeLimits, string> = {
+    sierraProgramLength: "Sierra program length",
+    casmBytecodeLength: "CASM bytecode length",
+    compressedClassSize: "compressed class size"
+};
+
+/**
+ * Measures the contract whose artifacts are provided.
+ * @param sierraPath the path of the contract compiled to Sierra
+ * @param casmPath the path of the contract compiled to CASM
+ * @returns the metrics, without the contract identifier
+ */
+export function measureContract(
+    sierraPath: string,
+    casmPath: string
+): Omit<ContractSize, "contract"> {
+    const sierra = JSON.parse(fs.readFileSync(sierraPath, "utf-8"));
+    const casm = JSON.parse(fs.readFileSync(casmPath, "utf-8"));
+
+    // debug info is not part of the declared class
+    const contractClass = {
+        sierra_program: sierra.sierra_program,
+        contract_class_version: sierra.contract_class_version,
+        entry_points_by_type: sierra.entry_points_by_type,
+        abi: typeof sierra.abi === "string" ? sierra.abi : JSON.stringify(sierra.abi)
+    };
+
+    return {
+        sierraProgramLength: sierra.sierra_program.length,
+        casmBytecodeLength: casm.bytecode.length,
+        compressedClassSize: zlib.gzipSync(JSON.stringify(contractClass)).length,
+        entryPoints: {
+            external: sierra.entry_points_by_type.EXTERNAL.length,
+            l1Handler: sierra.entry_points_by_type.L1_HANDLER.length,
+            constructor: sierra.entry_points_by_type.CONSTRUCTOR.length
+        }
+    };
+}
+
+/**
+ * Describes each limit exceeded by `size`.
+ */
+export function getExceededLimits(size: ContractSize, limits: ContractSizeLimits): string[] {
+    return (<(keyof ContractSizeLimits)[]>Object.keys(METRIC_DESCRIPTIONS))
+        .filter((metric) => limits[metric] !== undefined && size[metric] > limits[metric])
+        .map(
+            (metric) =>
+                `${METRIC_DESCRIPTIONS[metric]} ${size[metric]} exceeds the limit of ${limits[metric]}`
+        );
+}
+
+/**
+ * Finds the artifacts of all Cairo 1 contracts in `artifactsPath`, except those used by the plugin itself.
+ * @returns pairs of Sierra and CASM artifact paths
+ */
+export async function findCairo1Artifacts(
+    artifactsPath: string
+): Promise<{ sierraPath: string; casmPath: string }[]> {
+    if (!fs.existsSync(artifactsPath)) {
+        return [];
+    }
+
+    const artifacts = [];
+    for (const casmPath of await traverseFiles(
+        artifactsPath,
+        `*.cairo/*${CAIRO1_ASSEMBLY_SUFFIX}`
+    )) {
+        const relativePath = path.relative(artifactsPath, casmPath);
+        if (relativePath.split(path.sep)[0] === INTERNAL_ARTIFACTS_DIR) {
+            continue;
+        }
+
+        const contractName = path.basename(casmPath, CAIRO1_ASSEMBLY_SUFFIX);
+        const sierraPath = path.join(
+            path.dirname(casmPath),
+            `${contractName}${CAIRO1_SIERRA_SUFFIX}`
+        );
+        if (fs.existsSync(sierraPath)) {
+            artifacts.push({ sierraPath, casmPath });
+        }
+    }
+    return artifacts;
+}
+
+/**
+ * Collects the sizes of compiled contracts, so that they can be summarized and checked against limits.
+ */
+export class ContractSizeReport {
+    private sizes: ContractSize[] = [];
+
+    /**
+     * @param artifactsPath the artifacts directory, relative to which contracts are reported
+     * @param limits the limits against which contracts are checked
+     */
+    constructor(private artifactsPath: string, private limits: ContractSizeLimits) {}
+
+    /**
+     * Adds the contract whose artifacts are provided.
+     */
+    add(sierraPath: string, casmPath: string) {
+        this.sizes.push({
+            contract: path.relative(this.artifactsPath, path.dirname(sierraPath)),
+            ...measureContract(sierraPath, casmPath)
+        });
+    }
+
+    getSizes(): ContractSize[] {
+        return this.sizes;
+    }
+
+    /**
+     * @returns the contracts exceeding at least one of the limits
+     */
+    getOversized(): ContractSize[] {
+        return this.sizes.filter((size) => getExceededLimits(size, this.limits).length);
+    }
+
+    /**
+     * Prints a table of contract sizes, followed by warnings about exceeded limits.
+     * Nothing is printed if no contracts were added.
+     */
+    printSummary() {
+        if (!this.sizes.length) {
+            return;
+        }
+
+        const header = [
+            "Contract",
+            "Sierra felts",
+            "CASM felts",
+            "Compressed bytes",
+            "Entry points"
+        ];
+        const rows = this.sizes.map((size) => [
+            size.contract,
+            size.sierraProgramLength.toString(),
+            size.casmBytecodeLength.toString(),
+            size.compressedClassSize.toString(),
+            `${size.entryPoints.external} external, ${size.entryPoints.l1Handler} L1 handler, ` +
+                `${size.entryPoints.constructor} constructor`
+        ]);
+        const widths = header.map((title, i) =>
+            Math.max(title.length, ...rows.map((row) => row[i].length))
+        );
+        const formatRow = (row: string[]) =>
+            row
+                .map((cell, i) => cell.padEnd(widths[i]))
+                .join("  ")
+                .trimEnd();
+
+        console.log("Contract sizes:");
+        console.log(formatRow(header));
+        rows.forEach((row) => console.log(formatRow(row)));
+
+        for (const size of this.getOversized()) {
+            for (const exceeded of getExceededLimits(size, this.limits)) {
+                console.warn(`Warning: ${size.contract}: ${exceeded}`);
+            }
+        }
+        console.log();
+    }
+}
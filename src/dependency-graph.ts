@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+
+// e.g. `from contracts.lib.math import add` or `import contracts.lib.math`
+const CAIRO0_IMPORT_REGEX = /^\s*(?:from\s+([\w.]+)\s+import\b|import\s+([\w.]+))/gm;
+
+// e.g. `mod utils;` (a module declared in a separate file, unlike `mod utils { ... }`)
+const CAIRO1_MOD_REGEX = /^\s*(?:pub\s+)?mod\s+(\w+)\s*;/gm;
+
+// e.g. `use utils::helper;`
+const CAIRO1_USE_REGEX = /^\s*(?:pub\s+)?use\s+(\w+)::/gm;
+
+// Path segments of Cairo 1 `use` statements which never refer to a sibling module file
+const CAIRO1_NON_FILE_SEGMENTS = ["core", "starknet", "array", "option", "super", "crate", "self"];
+
+// File name of the root module of a Cairo 1 crate
+const CAIRO1_CRATE_ROOT = "lib.cairo";
+
+function existingOrNull(candidates: string[]): string | null {
+    return candidates.find((candidate) => fs.existsSync(candidate)) || null;
+}
+
+/**
+ * Resolves which source files a Cairo file depends on through its imports.
+ * Imports which cannot be resolved to a file (e.g. of the Cairo standard library) are ignored.
+ */
+export class DependencyGraph {
+    // Direct dependencies of already visited files
+    private edges: Map<string, string[]> = new Map();
+
+    /**
+     * Returns all source files `file` depends on, directly or transitively.
+     * @param file absolute path of the source file
+     * @param isCairo1 whether `file` is a Cairo 1 source file
+     * @param cairoPaths locations in which Cairo 0 imports are looked for
+     * @returns sorted absolute paths of dependencies, not containing `file`
+     */
+    public getTransitiveDependencies(
+        file: string,
+        isCairo1: boolean,
+        cairoPaths: string[] = []
+    ): string[] {
+        const visited = new Set([file]);
+        const stack = [file];
+        while (stack.length) {
+            const current = stack.pop();
+            for (const dependency of this.getDirectDependencies(current, isCairo1, cairoPaths)) {
+                if (!visited.has(dependency)) {
+                    visited.add(dependency);
+                    stack.push(dependency);
+                }
+            }
+        }
+
+        visited.delete(file);
+        return [...visited].sort();
+    }
+
+    private getDirectDependencies(file: string, isCairo1: boolean, cairoPaths: string[]) {
+        const key = [isCairo1, cairoPaths.join(":"), file].join("|");
+        if (!this.edges.has(key)) {
+            const content = fs.readFileSync(file, "utf-8");
+            const dependencies = isCairo1
+                ? this.resolveCairo1Dependencies(file, content)
+                : this.resolveCairo0Dependencies(content, cairoPaths);
+            this.edges.set(key, [...new Set(dependencies)]);
+        }
+        return this.edges.get(key);
+    }
+
+    private resolveCairo0Dependencies(content: string, cairoPaths: string[]): string[] {
+        const dependencies: string[] = [];
+        for (const match of content.matchAll(CAIRO0_IMPORT_REGEX)) {
+            const modulePath = match[1] || match[2];
+            const relativePath = `${path.join(...modulePath.split("."))}.cairo`;
+
+            const resolved = existingOrNull(
+                cairoPaths.map((cairoPath) => path.join(cairoPath, relativePath))
+            );
+            if (resolved) {
+                dependencies.push(resolved);
+            }
+        }
+        return dependencies;
+    }
+
+    private resolveCairo1Dependencies(file: string, content: string): string[] {
+        const dir = path.dirname(file);
+        // submodules of a non-root module are located in a directory named after it
+        const submoduleDirs =
+            path.basename(file) === CAIRO1_CRATE_ROOT
+                ? [dir]
+                : [path.join(dir, path.basename(file, ".cairo")), dir];
+
+        const dependencies: string[] = [];
+        for (const match of content.matchAll(CAIRO1_MOD_REGEX)) {
+            const resolved = existingOrNull(
+                submoduleDirs.map((submoduleDir) => path.join(submoduleDir, `${match[1]}.cairo`))
+            );
+            if (resolved) {
+                dependencies.push(resolved);
+            }
+        }
+
+        for (const match of content.matchAll(CAIRO1_USE_REGEX)) {
+            if (CAIRO1_NON_FILE_SEGMENTS.includes(match[1])) {
+                continue;
+            }
+
+            const resolved = existingOrNull([path.join(dir, `${match[1]}.cairo`)]);
+            if (resolved && resolved !== file) {
+                dependencies.push(resolved);
+            }
+        }
+        return dependencies;
+    }
+}
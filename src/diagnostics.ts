@@ -0,0 +1,205 @@
+import { ProcessResult } from "@nomiclabs/hardhat-docker";
+import fs from "fs";
+import path from "path";
+
+import { version } from "../package.json";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export const DIAGNOSTICS_FORMATS = ["json", "sarif"] as const;
+export type DiagnosticsFormat = (typeof DIAGNOSTICS_FORMATS)[number];
+
+/**
+ * A problem reported by a compiler, with the file path relative to the project root
+ */
+export interface CompilerDiagnostic {
+    file: string;
+    // undefined if the compiler didn't report the location
+    line?: number;
+    column?: number;
+    severity: DiagnosticSeverity;
+    message: string;
+}
+
+// e.g. `contracts/contract.cairo:12:5: Unknown identifier 'foo'.`
+const CAIRO0_DIAGNOSTIC_REGEX = /^(.+\.cairo):(\d+):(\d+): (.+)$/;
+// e.g. `error: Identifier not found.` or `warning[E0001]: Unused variable.`
+const CAIRO1_DIAGNOSTIC_REGEX = /^(error|warning)(?:\[\w+\])?: (.+)$/;
+// e.g. ` --> /project/src/lib.cairo:12:5`, following the Cairo 1 diagnostic header
+const CAIRO1_LOCATION_REGEX = /^\s*--> (.+):(\d+):(\d+)$/;
+// how far below its header the location of a Cairo 1 diagnostic is looked for
+const CAIRO1_LOCATION_LOOKAHEAD = 3;
+// Scarb concludes failed builds with a summary which is not a diagnostic on its own
+const SCARB_SUMMARY_REGEX = /^could not compile `.+` due to previous error/;
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Parses the diagnostics of Cairo 0, Cairo 1 and Scarb from compiler output.
+ * @param output the compiler output, with stdout and stderr combined
+ * @param defaultFile the file to which diagnostics without a location are attributed
+ */
+export function parseDiagnostics(output: string, defaultFile: string): CompilerDiagnostic[] {
+    const lines = output.replace(ANSI_ESCAPE_REGEX, "").split(/\r?\n/);
+    const diagnostics: CompilerDiagnostic[] = [];
+
+    for (let i = 0; i < lines.length; ++i) {
+        const cairo0Match = lines[i].match(CAIRO0_DIAGNOSTIC_REGEX);
+        if (cairo0Match) {
+            const [, file, line, column, message] = cairo0Match;
+            diagnostics.push({
+                file,
+                line: parseInt(line),
+                column: parseInt(column),
+                // Cairo 0 compiler doesn't report warnings
+                severity: "error",
+                message
+            });
+            continue;
+        }
+
+        const cairo1Match = lines[i].match(CAIRO1_DIAGNOSTIC_REGEX);
+        if (!cairo1Match || SCARB_SUMMARY_REGEX.test(cairo1Match[2])) {
+            continue;
+        }
+
+        const [, severity, message] = cairo1Match;
+        const diagnostic: CompilerDiagnostic = {
+            file: defaultFile,
+            severity: <DiagnosticSeverity>severity,
+            message
+        };
+
+        for (let j = i + 1; j <= i + CAIRO1_LOCATION_LOOKAHEAD && j < lines.length; ++j) {
+            const locationMatch = lines[j].match(CAIRO1_LOCATION_REGEX);
+            if (locationMatch) {
+                diagnostic.file = locationMatch[1];
+                diagnostic.line = parseInt(locationMatch[2]);
+                diagnostic.column = parseInt(locationMatch[3]);
+                break;
+            }
+        }
+
+        diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+}
+
+function formatLocation(diagnostic: CompilerDiagnostic): string {
+    return diagnostic.line === undefined ? "" : `${diagnostic.line}:${diagnostic.column}`;
+}
+
+function pluralize(count: number, noun: string) {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Collects the diagnostics of a compilation task, so that they can be summarized and exported once it's done.
+ */
+export class DiagnosticsReport {
+    private diagnostics: CompilerDiagnostic[] = [];
+
+    /**
+     * @param root the project root, relative to which the paths are reported
+     */
+    constructor(private root: string) {}
+
+    /**
+     * Adds the diagnostics found in the output of a compiler execution.
+     * @param executed the result of the execution
+     * @param defaultFile the compiled file, to which diagnostics without a location are attributed
+     */
+    collect(executed: ProcessResult, defaultFile: string) {
+        const output = `${executed.stdout.toString()}\n${executed.stderr.toString()}`;
+        for (const diagnostic of parseDiagnostics(output, defaultFile)) {
+            const absolutePath = path.resolve(this.root, diagnostic.file);
+            diagnostic.file = path.relative(this.root, absolutePath);
+            this.diagnostics.push(diagnostic);
+        }
+    }
+
+    /**
+     * Prints the diagnostics grouped by file, followed by their count. Nothing is printed if there are none.
+     */
+    printSummary() {
+        if (!this.diagnostics.length) {
+            return;
+        }
+
+        const byFile: Map<string, CompilerDiagnostic[]> = new Map();
+        for (const diagnostic of this.diagnostics) {
+            const fileDiagnostics = byFile.get(diagnostic.file) || [];
+            fileDiagnostics.push(diagnostic);
+            byFile.set(diagnostic.file, fileDiagnostics);
+        }
+
+        console.log("Diagnostics:");
+        for (const [file, fileDiagnostics] of byFile) {
+            console.log(file);
+            for (const diagnostic of fileDiagnostics) {
+                const location = formatLocation(diagnostic).padEnd(8);
+                const severity = diagnostic.severity.padEnd(8);
+                console.log(`    ${location}${severity}${diagnostic.message}`);
+            }
+        }
+
+        const errorCount = this.diagnostics.filter((d) => d.severity === "error").length;
+        const warningCount = this.diagnostics.length - errorCount;
+        console.log(
+            `${pluralize(errorCount, "error")} and ${pluralize(warningCount, "warning")} ` +
+                `in ${pluralize(byFile.size, "file")}\n`
+        );
+    }
+
+    private toSarif() {
+        return {
+            $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+            version: "2.1.0",
+            runs: [
+                {
+                    tool: {
+                        driver: {
+                            name: "starknet-hardhat-plugin",
+                            version,
+                            informationUri:
+                                "https://github.com/0xSpaceShard/starknet-hardhat-plugin"
+                        }
+                    },
+                    results: this.diagnostics.map((diagnostic) => ({
+                        level: diagnostic.severity,
+                        message: { text: diagnostic.message },
+                        locations: [
+                            {
+                                physicalLocation: {
+                                    artifactLocation: {
+                                        uri: diagnostic.file.split(path.sep).join("/")
+                                    },
+                                    region:
+                                        diagnostic.line === undefined
+                                            ? undefined
+                                            : {
+                                                  startLine: diagnostic.line,
+                                                  startColumn: diagnostic.column
+                                              }
+                                }
+                            }
+                        ]
+                    }))
+                }
+            ]
+        };
+    }
+
+    /**
+     * Writes the diagnostics to `outputPath`.
+     * @param format `json` for an array of diagnostics, or `sarif` for a SARIF 2.1.0 log
+     * @param outputPath where the diagnostics are written
+     */
+    write(format: DiagnosticsFormat, outputPath: string) {
+        const content = format === "sarif" ? this.toSarif() : this.diagnostics;
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, JSON.stringify(content, null, 4) + "\n");
+    }
+}
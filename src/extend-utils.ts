@@ -1,25 +1,73 @@
+import fs from "fs";
 import { Block, HardhatRuntimeEnvironment, Transaction } from "hardhat/types";
 import path from "path";
 import { uint256 } from "starknet";
 
 import { handleInternalContractArtifacts } from "./account-utils";
+import { findIndexedArtifacts, getArtifactIndexVersion } from "./artifact-index";
 import {
     ABI_SUFFIX,
     CAIRO1_ASSEMBLY_SUFFIX,
     ETH_ADDRESS,
+    SCARB_MAIN_ARTIFACT_SUFFIX,
     SHORT_STRING_MAX_CHARACTERS
 } from "./constants";
 import { StarknetPluginError } from "./starknet-plugin-error";
 import { TransactionReceipt, TransactionTrace } from "./starknet-types";
-import { BlockIdentifier, NonceQueryOptions, StarknetContractFactory } from "./types";
-import { checkArtifactExists, findPath } from "./utils";
+import {
+    BlockIdentifier,
+    ContractFunctionTypes,
+    NonceQueryOptions,
+    ScarbContractEntry,
+    StarknetContractFactory,
+    UntypedContractFunctions
+} from "./types";
+import { checkArtifactExists, findPath, getScarbContractModulePath, traverseFiles } from "./utils";
 
-export async function getContractFactoryUtil(hre: HardhatRuntimeEnvironment, contractPath: string) {
-    const artifactsPath = hre.config.paths.starknetArtifacts;
-    checkArtifactExists(artifactsPath);
+/**
+ * Resolves the qualified name of a contract built by Scarb (e.g. `my_pkg::tokens::ERC20`) using the
+ * `module_path` of contracts in the main artifacts of built packages. The name may be partially
+ * qualified (e.g. `tokens::ERC20`), as long as it's unambiguous.
+ * @returns the path of the contract's artifacts relative to `artifactsPath`, without extension
+ */
+async function resolveQualifiedContractName(artifactsPath: string, qualifiedName: string) {
+    const candidates: Map<string, string> = new Map(); // contract path -> module path
+    const mainArtifactPaths = await traverseFiles(artifactsPath, `*${SCARB_MAIN_ARTIFACT_SUFFIX}`);
+    for (const mainArtifactPath of mainArtifactPaths) {
+        // main artifact is in <ARTIFACT_DIR>/<PROFILE>/, our copies are in <ARTIFACT_DIR>/
+        const artifactDirPath = path.dirname(path.dirname(mainArtifactPath));
+        const mainArtifact = JSON.parse(fs.readFileSync(mainArtifactPath, "utf-8"));
+        for (const contractEntry of mainArtifact.contracts as ScarbContractEntry[]) {
+            const modulePath = getScarbContractModulePath(contractEntry);
+            if (modulePath === qualifiedName || modulePath.endsWith(`::${qualifiedName}`)) {
+                const contractPath = path.join(artifactDirPath, ...modulePath.split("::"));
+                candidates.set(path.relative(artifactsPath, contractPath), modulePath);
+            }
+        }
+    }
 
-    contractPath = contractPath.replace(/\.[^/.]+$/, ""); // remove extension
+    if (candidates.size === 0) {
+        throw new StarknetPluginError(
+            `Could not find a contract named "${qualifiedName}" among contracts built by Scarb. Consider rebuilding your contracts.`
+        );
+    } else if (candidates.size > 1) {
+        const candidateList = [...candidates]
+            .map(([contractPath, modulePath]) => `- ${modulePath} (${contractPath})`)
+            .join("\n");
+        throw new StarknetPluginError(
+            `Contract name "${qualifiedName}" is ambiguous. Candidates:\n${candidateList}\n` +
+                "Use a more qualified name or the path (in parentheses) of the desired contract."
+        );
+    }
 
+    return [...candidates.keys()][0];
+}
+
+/**
+ * Finds the artifacts of `contractPath` by traversing the artifacts directory.
+ * Used for artifacts which are not indexed, e.g. if compiled by an older version of the plugin.
+ */
+async function findArtifacts(artifactsPath: string, contractPath: string) {
     const metadataSearchTarget = path.join(
         `${contractPath}.cairo`,
         `${path.basename(contractPath)}.json`
@@ -48,12 +96,45 @@ export async function getContractFactoryUtil(hre: HardhatRuntimeEnvironment, con
         );
     }
 
-    return new StarknetContractFactory({
-        metadataPath,
-        casmPath,
-        abiPath,
-        hre
-    });
+    return { metadataPath, casmPath, abiPath };
+}
+
+// Factories created in this process, by requested contract path; valid until the artifacts are reindexed
+const factoryCache: WeakMap<
+    HardhatRuntimeEnvironment,
+    Map<string, { indexVersion: number; factory: StarknetContractFactory }>
+> = new WeakMap();
+
+export async function getContractFactoryUtil<
+    F extends ContractFunctionTypes = UntypedContractFunctions
+>(hre: HardhatRuntimeEnvironment, contractPath: string): Promise<StarknetContractFactory<F>> {
+    const artifactsPath = hre.config.paths.starknetArtifacts;
+    checkArtifactExists(artifactsPath);
+
+    if (!factoryCache.has(hre)) {
+        factoryCache.set(hre, new Map());
+    }
+    const factories = factoryCache.get(hre);
+    const indexVersion = getArtifactIndexVersion(artifactsPath);
+    const cached = factories.get(contractPath);
+    if (indexVersion && cached?.indexVersion === indexVersion) {
+        // function types are only known to the caller
+        return cached.factory as StarknetContractFactory<F>;
+    }
+
+    let resolvedPath = contractPath;
+    if (resolvedPath.includes("::")) {
+        resolvedPath = await resolveQualifiedContractName(artifactsPath, resolvedPath);
+    }
+    resolvedPath = resolvedPath.replace(/\.[^/.]+$/, ""); // remove extension
+
+    const artifacts =
+        findIndexedArtifacts(artifactsPath, resolvedPath) ||
+        (await findArtifacts(artifactsPath, resolvedPath));
+
+    const factory = new StarknetContractFactory({ ...artifacts, hre });
+    factories.set(contractPath, { indexVersion, factory });
+    return factory as StarknetContractFactory<F>;
 }
 
 export function shortStringToBigIntUtil(convertibleString: string) {
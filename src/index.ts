@@ -1,5 +1,6 @@
 import * as path from "path";
-import { task, extendEnvironment, extendConfig } from "hardhat/config";
+import { task, subtask, extendEnvironment, extendConfig, types } from "hardhat/config";
+import { TASK_COMPILE_GET_COMPILATION_TASKS } from "hardhat/builtin-tasks/task-names";
 import { StarknetPluginError } from "./starknet-plugin-error";
 import { lazyObject } from "hardhat/plugins";
 import {
@@ -15,6 +16,8 @@ import "./type-extensions";
 import {
     DEFAULT_STARKNET_SOURCES_PATH,
     DEFAULT_STARKNET_ARTIFACTS_PATH,
+    DEFAULT_STARKNET_TYPINGS_PATH,
+    DEFAULT_DIAGNOSTICS_FILE_NAME,
     CAIRO_CLI_DOCKER_REPOSITORY,
     AMARNA_DOCKER_REPOSITORY,
     AMARNA_DOCKER_IMAGE_TAG,
@@ -30,14 +33,17 @@ import {
     VOYAGER_GOERLI_2_CONTRACT_API_URL,
     VOYAGER_GOERLI_2_VERIFIED_URL,
     StarknetChainId,
-    SUPPORTED_SCARB_VERSION
+    SUPPORTED_SCARB_VERSION,
+    SCARB_DEFAULT_PROFILE,
+    TASK_COMPILE_STARKNET
 } from "./constants";
 import {
     adaptPath,
     getCairoCliImageTagByArch,
     getDefaultHardhatNetworkConfig,
     getDefaultHttpNetworkConfig,
-    getNetwork
+    getNetwork,
+    resolveSourcesRoots
 } from "./utils";
 import { DockerWrapper, VenvWrapper } from "./starknet-wrappers";
 import {
@@ -46,10 +52,17 @@ import {
     starknetVoyagerAction,
     starknetTestAction,
     starknetRunAction,
+    starknetCleanAction,
+    starknetCleanOverrideAction,
+    starknetHardhatCompileAction,
     starknetPluginVersionAction,
     starknetMigrateAction,
     starknetCompileCairo1Action,
-    starknetBuildAction
+    starknetBuildAction,
+    starknetTypegenAction,
+    starknetSizeAction,
+    starknetArtifactsCheckAction,
+    withWatchMode
 } from "./task-actions";
 import {
     bigIntToShortStringUtil,
@@ -65,8 +78,12 @@ import {
 import { DevnetUtils } from "./devnet-utils";
 import { ExternalServer } from "./external-server";
 import { ArgentAccount, OpenZeppelinAccount } from "./account";
+import { byteArrayToString, stringToByteArray } from "./byte-array";
+import { CodecRegistry } from "./codecs";
 import { AmarnaDocker } from "./external-server/docker-amarna";
 import { StarknetLegacyWrapper } from "./starknet-js-wrapper";
+import { ContractFunctionTypes } from "./types";
+import { DIAGNOSTICS_FORMATS } from "./diagnostics";
 
 exitHook(() => {
     ExternalServer.cleanAll();
@@ -87,17 +104,8 @@ extendConfig((config: HardhatConfig, userConfig: Readonly<HardhatUserConfig>) =>
 
 // add sources path
 extendConfig((config: HardhatConfig, userConfig: Readonly<HardhatUserConfig>) => {
-    let newPath: string;
-    if (userConfig.paths && userConfig.paths.starknetSources) {
-        const userPath = userConfig.paths.starknetSources;
-        newPath = adaptPath(config.paths.root, userPath);
-        config.paths.starknetSources = userConfig.paths.starknetSources;
-    } else {
-        const defaultPath = path.join(config.paths.root, DEFAULT_STARKNET_SOURCES_PATH);
-        newPath = defaultPath;
-    }
-
-    config.paths.starknetSources = newPath;
+    const userPaths = userConfig.paths?.starknetSources || DEFAULT_STARKNET_SOURCES_PATH;
+    config.paths.starknetSources = resolveSourcesRoots(config.paths.root, userPaths);
 });
 
 // add artifacts path
@@ -197,16 +205,38 @@ extendEnvironment((hre) => {
             hre
         );
 
-        if (hre.config.starknet.cairo1BinDir) {
+        const compilerSettings = Object.values(hre.config.starknet.compilerSettings || {});
+        if (
+            hre.config.starknet.cairo1BinDir ||
+            compilerSettings.some((settings) => settings.cairo1BinDir)
+        ) {
             throw new StarknetPluginError(
                 `cairo1BinDir cannot be used with dockerized plugin.
-Remove cairo1BinDir to use the default dockerized cairo1 compiler OR specify a local venv.`
+Remove cairo1BinDir to use the default dockerized cairo1 compiler OR specify a local venv.
+To use other dockerized compilers for some contracts, specify cairo1DockerizedVersion in compilerSettings.`
             );
         }
     }
 });
 
-task("starknet-compile-deprecated", "Compiles Starknet (Cairo 0) contracts")
+const WATCH_FLAG_DESCRIPTION =
+    "Keeps watching the sources after the initial compilation; on change, recompiles the affected contracts.";
+
+function addDiagnosticsParams(task: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+    return task
+        .addOptionalParam(
+            "diagnosticsFormat",
+            "Writes the compiler diagnostics (errors and warnings) to a file in the specified format: " +
+                DIAGNOSTICS_FORMATS.join(" or ")
+        )
+        .addOptionalParam(
+            "diagnosticsOutput",
+            "The file to which the diagnostics are written.\n" +
+                `If not provided, but the format is, ${DEFAULT_DIAGNOSTICS_FILE_NAME}.<FORMAT> is used.`
+        );
+}
+
+addDiagnosticsParams(task("starknet-compile-deprecated", "Compiles Starknet (Cairo 0) contracts"))
     .addOptionalVariadicPositionalParam(
         "paths",
         "The paths to be used for compilation.\n" +
@@ -220,9 +250,10 @@ task("starknet-compile-deprecated", "Compiles Starknet (Cairo 0) contracts")
     )
     .addFlag("accountContract", "Allows compiling an account contract.")
     .addFlag("disableHintValidation", "Allows compiling a contract with any python code in hints.")
-    .setAction(starknetDeprecatedCompileAction);
+    .addFlag("watch", WATCH_FLAG_DESCRIPTION)
+    .setAction(withWatchMode(starknetDeprecatedCompileAction, "cairo0"));
 
-task("starknet-compile", "Compiles Starknet (Cairo 1) contracts")
+addDiagnosticsParams(task("starknet-compile", "Compiles Starknet (Cairo 1) contracts"))
     .addOptionalVariadicPositionalParam(
         "paths",
         "The paths are source files of contracts to be compiled.\n" +
@@ -243,9 +274,17 @@ task("starknet-compile", "Compiles Starknet (Cairo 1) contracts")
     .addOptionalParam("allowedLibfuncsListFile", "A file of the allowed libfuncs list to use.")
     .addFlag("addPythonicHints", "Add pythonic hints.")
     .addFlag("singleFile", "Compile single file.")
-    .setAction(starknetCompileCairo1Action);
+    .addOptionalParam(
+        "parallel",
+        "The maximum number of contracts compiled at the same time (default: 1).\n" +
+            "Overrides compileConcurrency set in the hardhat config file.",
+        undefined,
+        types.int
+    )
+    .addFlag("watch", WATCH_FLAG_DESCRIPTION)
+    .setAction(withWatchMode(starknetCompileCairo1Action, "cairo1"));
 
-task("starknet-build", "Builds Scarb projects")
+addDiagnosticsParams(task("starknet-build", "Builds Scarb projects"))
     .addOptionalVariadicPositionalParam(
         "paths",
         "The paths are source files of contracts to be compiled.\n" +
@@ -258,9 +297,9 @@ task("starknet-build", "Builds Scarb projects")
             "E.g. if your toml specifies `name = MyPackage` and there is a contract called FooContract in your source files, you would load it with:\n" +
             "\tstarknet.getContractFactory('MyPackage_FooContract')\n" +
             "The name of the file where the contract was defined doesn't play a role.\n" +
-            "The plugin doesn't have a default Scarb command yet (a dockerized wrapper will be supported soon).\n" +
-            "You need to provide a `scarbCommand` (either an exact command or the path to it) under `starknet` in your hardhat config file, " +
-            "or you can override that via `--scarb-command <COMMAND>`."
+            "By default, Scarb is run in a Docker container of the image specified by `dockerizedVersion`.\n" +
+            "To use your local Scarb, provide a `scarbCommand` (either an exact command or the path to it) under `starknet` in your hardhat config file, " +
+            "or via `--scarb-command <COMMAND>`."
     )
     .addOptionalParam(
         "scarbCommand",
@@ -271,12 +310,44 @@ task("starknet-build", "Builds Scarb projects")
         "By default, your TOML config file will be validated to ensure it generates the artifacts required for later contract loading.\n" +
             "Set this flag to skip the validation."
     )
-    .setAction(starknetBuildAction);
+    .addOptionalParam(
+        "profile",
+        "The Scarb profile to build with, e.g. release. Overrides the one set in the hardhat config file.\n" +
+            `If not set in either, ${SCARB_DEFAULT_PROFILE} is used.`
+    )
+    .addOptionalParam(
+        "features",
+        "Comma-separated features of the built packages to be enabled. Overrides the ones set in the hardhat config file"
+    )
+    .addOptionalParam(
+        "scarbArgs",
+        "Space-separated arguments passed to `scarb build` as they are. Overrides the ones set in the hardhat config file"
+    )
+    .addFlag("watch", WATCH_FLAG_DESCRIPTION)
+    .setAction(withWatchMode(starknetBuildAction, "scarb"));
+
+task("starknet-typegen", "Generates TypeScript typings of compiled contracts")
+    .addOptionalParam(
+        "outDir",
+        "The directory to which the typings are written. Overrides typegen.outDir set in the hardhat config file.\n" +
+            `If not set in either, ${DEFAULT_STARKNET_TYPINGS_PATH} is used.`
+    )
+    .setAction(starknetTypegenAction);
+
+task(
+    "starknet-artifacts-check",
+    "Checks if the artifacts of compiled contracts correspond to the current sources and to what was recorded on compilation"
+).setAction(starknetArtifactsCheckAction);
+
+task(
+    "starknet-size",
+    "Reports the sizes of compiled Cairo 1 contracts and fails if any exceeds the limits set in starknet.sizeLimits"
+).setAction(starknetSizeAction);
 
 extendEnvironment((hre) => {
     hre.starknet = {
-        getContractFactory: async (contractPath) => {
-            const contractFactory = await getContractFactoryUtil(hre, contractPath);
+        getContractFactory: async <F extends ContractFunctionTypes>(contractPath: string) => {
+            const contractFactory = await getContractFactoryUtil<F>(hre, contractPath);
             return contractFactory;
         },
 
@@ -290,6 +361,12 @@ extendEnvironment((hre) => {
             return convertedBigInt;
         },
 
+        stringToByteArray,
+
+        byteArrayToString,
+
+        codecs: new CodecRegistry(),
+
         devnet: lazyObject(() => new DevnetUtils(hre)),
 
         getTransaction: async (txHash) => {
@@ -352,10 +429,40 @@ function addStarknetNetworkParam(task: ConfigurableTaskDefinition): Configurable
     );
 }
 
-addStarknetNetworkParam(task("test")).setAction(starknetTestAction);
+addStarknetNetworkParam(task("test"))
+    .addFlag(
+        "watch",
+        "Keeps watching Starknet sources; on change, recompiles the affected contracts and reruns the tests."
+    )
+    .setAction(starknetTestAction);
 
 addStarknetNetworkParam(task("run")).setAction(starknetRunAction);
 
+task(
+    "starknet-clean",
+    "Removes Starknet artifacts, the recompilation cache and Scarb target directories"
+)
+    .addFlag("dryRun", "Lists what would be removed, without removing it.")
+    .setAction(starknetCleanAction);
+
+subtask(TASK_COMPILE_GET_COMPILATION_TASKS).setAction(
+    async (_args, hre, runSuper): Promise<string[]> => {
+        const compilationTasks: string[] = await runSuper();
+        return hre.config.starknet.compileWithHardhat
+            ? [...compilationTasks, TASK_COMPILE_STARKNET]
+            : compilationTasks;
+    }
+);
+
+subtask(
+    TASK_COMPILE_STARKNET,
+    "Compiles the changed Starknet sources, each with the task matching its source type"
+).setAction(starknetHardhatCompileAction);
+
+task("clean")
+    .addFlag("dryRun", "Lists what would be removed, without removing it.")
+    .setAction(starknetCleanOverrideAction);
+
 task("starknet-plugin-version", "Prints the version of the starknet plugin.").setAction(
     starknetPluginVersionAction
 );
@@ -372,3 +479,4 @@ task("amarna", "Runs Amarna, the static-analyzer and linter for Cairo.")
 export * from "./types";
 export * from "./starknet-types";
 export * from "./starknet-plugin-error";
+export { ArtifactMeta, CompilerDescription } from "./artifact-meta";
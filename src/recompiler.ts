@@ -2,31 +2,166 @@ import fs from "fs";
 import path from "path";
 import { createHash } from "crypto";
 import { HardhatRuntimeEnvironment, ProjectPathsConfig, TaskArguments } from "hardhat/types";
-import { starknetDeprecatedCompileAction } from "./task-actions";
+import { DependencyGraph } from "./dependency-graph";
+import {
+    getCairoPaths,
+    CompilerSettingsResolver,
+    createCompilerSettingsResolver,
+    getScarbBuildOptions,
+    getScarbMainArtifactPath,
+    getScarbPackageNames,
+    getScarbWorkspaceMemberPaths,
+    starknetBuildAction,
+    starknetCompileCairo1Action,
+    starknetDeprecatedCompileAction
+} from "./task-actions";
 import { getArtifactPath, traverseFiles } from "./utils";
-import { ABI_SUFFIX } from "./constants";
-
-interface ContractData {
+import { ABI_SUFFIX, SCARB_CONFIG_FILE_NAME } from "./constants";
+import { StarknetPluginError } from "./starknet-plugin-error";
+import { CompilerSettings } from "./types/starknet";
+
+/**
+ * The way a cached source is compiled:
+ * - `cairo0`: a Cairo 0 file compiled with `starknet-compile-deprecated`
+ * - `cairo1`: a standalone Cairo 1 file compiled with `starknet-compile`
+ * - `scarb`: a Scarb package (keyed by its Scarb.toml) built with `starknet-build`
+ */
+export type SourceType = "cairo0" | "cairo1" | "scarb";
+
+export interface ContractData {
     contentHash: string;
     outputPath: string;
-    abiPath: string;
+    abiPath?: string;
+    sourceType?: SourceType;
+    // Hashes of all the files the source imports, directly or transitively
+    dependencies?: Record<string, string>;
+    // Settings of the `starknet.compilerSettings` patterns matching the source
+    compilerSettings?: CompilerSettings;
+    // Cairo 0 options
     cairoPath?: string;
     accountContract?: boolean;
     disableHintValidation?: boolean;
+    // Cairo 1 options
+    cairo1BinDir?: string;
+    replaceIds?: boolean;
+    allowedLibfuncsListName?: string;
+    allowedLibfuncsListFile?: string;
+    addPythonicHints?: boolean;
+    singleFile?: boolean;
+    // Scarb options
+    scarbCommand?: string;
+    skipValidate?: boolean;
+    profile?: string;
+    features?: string;
+    scarbArgs?: string;
+}
+
+// Compilation options recorded in the cache entry, per source type
+const RECORDED_OPTIONS: Record<SourceType, (keyof ContractData)[]> = {
+    cairo0: ["cairoPath", "accountContract", "disableHintValidation"],
+    cairo1: [
+        "cairo1BinDir",
+        "replaceIds",
+        "allowedLibfuncsListName",
+        "allowedLibfuncsListFile",
+        "addPythonicHints",
+        "singleFile"
+    ],
+    scarb: ["scarbCommand", "skipValidate", "profile", "features", "scarbArgs"]
+};
+
+// Changed sources compiled together by a single run of the action matching their source type
+interface CompilationGroup {
+    sourceType: SourceType;
+    options: TaskArguments;
+    sources: string[];
+}
+
+const CAIRO0_SOURCE_REGEX = /^\s*(%lang|%builtins|func\s|from\s+\S+\s+import\s)/m;
+const CAIRO1_SOURCE_REGEX = /^\s*(#\[|(pub\s+)?(fn|mod|use|trait|impl|enum)\s)/m;
+
+/**
+ * Guesses the Cairo version of a standalone source file by its syntax.
+ * Defaults to Cairo 0 if undecidable.
+ */
+function detectCairoSourceType(content: string): SourceType {
+    if (CAIRO0_SOURCE_REGEX.test(content)) {
+        return "cairo0";
+    }
+    return CAIRO1_SOURCE_REGEX.test(content) ? "cairo1" : "cairo0";
+}
+
+/**
+ * Checks if any dependency was added, removed or had its content changed.
+ */
+function haveDependenciesChanged(
+    oldDependencies: Record<string, string> = {},
+    newDependencies: Record<string, string> = {}
+): boolean {
+    const oldFiles = Object.keys(oldDependencies);
+    if (oldFiles.length !== Object.keys(newDependencies).length) {
+        return true;
+    }
+    return oldFiles.some((file) => oldDependencies[file] !== newDependencies[file]);
+}
+
+/**
+ * Checks if the compiler settings matching a source changed, e.g. by editing the hardhat config file.
+ */
+function haveCompilerSettingsChanged(
+    oldSettings: CompilerSettings = {},
+    newSettings: CompilerSettings = {}
+): boolean {
+    return JSON.stringify(oldSettings) !== JSON.stringify(newSettings);
+}
+
+function isWithin(file: string, paths: string[]): boolean {
+    return paths.some((p) => file === p || file.startsWith(p.endsWith("/") ? p : `${p}/`));
+}
+
+/**
+ * Returns the path of the Scarb.toml of the package containing `file` (or of the workspace the package is a member of),
+ * or `null` if `file` is not part of a Scarb package. Directories above `root` are not looked into.
+ */
+export function findScarbPackageConfig(file: string, root: string): string | null {
+    let packageConfigPath: string = null;
+    let dir = path.dirname(file);
+    while (dir.startsWith(root)) {
+        const configPath = path.join(dir, SCARB_CONFIG_FILE_NAME);
+        if (!packageConfigPath && fs.existsSync(configPath)) {
+            packageConfigPath = configPath;
+        } else if (
+            // a package belonging to a workspace is built through the workspace root
+            packageConfigPath &&
+            fs.existsSync(configPath) &&
+            getScarbWorkspaceMemberPaths(configPath).includes(packageConfigPath)
+        ) {
+            return configPath;
+        }
+
+        const parentDir = path.dirname(dir);
+        if (parentDir === dir) break;
+        dir = parentDir;
+    }
+    return packageConfigPath;
 }
 
 // Cache file name
-const CACHE_FILE_NAME = "cairo-files-cache.json";
+export const CACHE_FILE_NAME = "cairo-files-cache.json";
 
 export class Cache {
     protected cache: Record<string, ContractData> = {};
+    private loaded = false;
     public fsPromises = fs.promises;
 
     constructor(protected hre: HardhatRuntimeEnvironment) {}
 
-    // Returns the contract data from the cache
+    // Returns the contract data from the cache; the file is only read on first access
     public async getCache(): Promise<Record<string, ContractData>> {
-        await this.loadCache();
+        if (!this.loaded) {
+            await this.loadCache();
+            this.loaded = true;
+        }
         return this.cache;
     }
 
@@ -76,76 +211,213 @@ export class Cache {
 export class Recompiler {
     private cache: Cache;
     private hre: HardhatRuntimeEnvironment;
+    private dependencyGraph: DependencyGraph;
+    // Created on first use, so that the patterns are expanded once per recompiler
+    private compilerSettingsResolver: CompilerSettingsResolver;
 
     constructor(hre: HardhatRuntimeEnvironment) {
         this.cache = new Cache(hre);
         this.hre = hre;
+        this.dependencyGraph = new DependencyGraph();
     }
 
-    // Gets hash of each .cairo file inside source
-    private async getContractHash(
-        paths: ProjectPathsConfig
-    ): Promise<Record<string, ContractData>> {
-        const { starknetSources: defaultSourcesPath } = paths;
+    // Gets hash of the content of a file
+    private async getFileHash(file: string): Promise<string> {
+        const data = await this.cache.fsPromises.readFile(file);
+        const hash = createHash("sha256");
+        hash.update(data);
+        return hash.digest("hex").toString();
+    }
 
-        const sourceRegex = new RegExp("^" + defaultSourcesPath + "/");
-        const artifactsDir = getArtifactPath(defaultSourcesPath, paths);
+    // Gets the settings of `starknet.compilerSettings` patterns matching a source, undefined if there are none
+    private getRecordedCompilerSettings(
+        file: string,
+        sourceType: SourceType
+    ): CompilerSettings | undefined {
+        if (sourceType === "scarb") {
+            return undefined;
+        }
+        this.compilerSettingsResolver ||= createCompilerSettingsResolver(this.hre);
+        const settings = this.compilerSettingsResolver(file);
+        return Object.keys(settings).length ? settings : undefined;
+    }
+
+    // Gets hash of a Scarb package: its config file and all of its .cairo files
+    private async getScarbPackageHash(packageConfigPath: string): Promise<string> {
+        const packageDir = path.dirname(packageConfigPath);
+        const files = (await traverseFiles(packageDir, "*.cairo")).sort();
+
+        const hash = createHash("sha256");
+        for (const file of [packageConfigPath, ...files]) {
+            // the relative path is included so that renaming a module also changes the hash
+            hash.update(path.relative(packageDir, file));
+            hash.update(await this.cache.fsPromises.readFile(file));
+        }
+        return hash.digest("hex").toString();
+    }
 
+    // Gets hashes of all the files imported by a source; Scarb packages are hashed as a whole
+    private async getDependencyHashes(
+        file: string,
+        sourceType: SourceType,
+        cairoPathArg?: string
+    ): Promise<Record<string, string> | undefined> {
+        if (sourceType === "scarb") {
+            return undefined;
+        }
+
+        const cairoPaths = sourceType === "cairo0" ? getCairoPaths(this.hre, cairoPathArg) : [];
+        const dependencies = this.dependencyGraph.getTransitiveDependencies(
+            file,
+            sourceType === "cairo1",
+            cairoPaths
+        );
+        if (!dependencies.length) {
+            return undefined;
+        }
+
+        const dependencyHashes: Record<string, string> = {};
+        for (const dependency of dependencies) {
+            dependencyHashes[dependency] = await this.getFileHash(dependency);
+        }
+        return dependencyHashes;
+    }
+
+    // Returns the path of the main artifact Scarb generates when building the package
+    private getScarbOutputPath(
+        packageConfigPath: string,
+        paths: ProjectPathsConfig,
+        oldEntry?: ContractData
+    ): string {
+        const packageName = getScarbPackageNames(packageConfigPath, false)[0];
+        const artifactDirPath = getArtifactPath(path.dirname(packageConfigPath), paths);
+        const { profile } = getScarbBuildOptions(oldEntry, this.hre.config.starknet);
+        return getScarbMainArtifactPath(path.join(artifactDirPath, profile), packageName);
+    }
+
+    // Gets hash of each .cairo file inside sources, grouping files of Scarb packages by package
+    private async getContractHash(
+        paths: ProjectPathsConfig,
+        oldCache: Record<string, ContractData>,
+        sourcesPaths: string[]
+    ): Promise<Record<string, ContractData>> {
         const newCacheEntry: Record<string, ContractData> = {};
-        // Get sources from source path. Check only cairo file extensions
-        const filesList = await traverseFiles(defaultSourcesPath, "*.cairo");
+        const packageConfigPaths: Set<string> = new Set();
+        // Get sources from source paths. Check only cairo file extensions
+        const filesList: string[] = [];
+        for (const sourcesPath of sourcesPaths) {
+            if (fs.existsSync(sourcesPath)) {
+                filesList.push(...(await traverseFiles(sourcesPath, "*.cairo")));
+            }
+        }
         // Select file name
         for (const cairoContract of filesList) {
+            const packageConfigPath = findScarbPackageConfig(cairoContract, paths.root);
+            if (packageConfigPath) {
+                packageConfigPaths.add(packageConfigPath);
+                continue;
+            }
+
             const data = await this.cache.fsPromises.readFile(cairoContract);
             const hash = createHash("sha256");
             hash.update(data);
-            const suffix = cairoContract.replace(sourceRegex, "");
+            const artifactsDir = getArtifactPath(cairoContract, paths);
 
-            const fileName = path.basename(suffix, ".cairo");
-            const abiPath = path.join(artifactsDir, suffix, `${fileName}${ABI_SUFFIX}`);
-            const outputPath = path.join(artifactsDir, suffix, `${fileName}.json`);
+            const fileName = path.basename(cairoContract, ".cairo");
+            const abiPath = path.join(artifactsDir, `${fileName}${ABI_SUFFIX}`);
+            const outputPath = path.join(artifactsDir, `${fileName}.json`);
 
+            const oldEntry = oldCache[cairoContract];
+            const sourceType = oldEntry?.sourceType || detectCairoSourceType(data.toString());
             newCacheEntry[cairoContract] = {
+                ...oldEntry,
                 contentHash: hash.digest("hex").toString(),
                 outputPath,
-                abiPath
+                abiPath,
+                sourceType,
+                dependencies: await this.getDependencyHashes(
+                    cairoContract,
+                    sourceType,
+                    oldEntry?.cairoPath
+                ),
+                compilerSettings: this.getRecordedCompilerSettings(cairoContract, sourceType)
+            };
+        }
+
+        // Scarb packages built before may be located outside of the sources directory
+        for (const cachedPath in oldCache) {
+            if (oldCache[cachedPath].sourceType === "scarb" && fs.existsSync(cachedPath)) {
+                packageConfigPaths.add(cachedPath);
+            }
+        }
+
+        for (const packageConfigPath of packageConfigPaths) {
+            newCacheEntry[packageConfigPath] = {
+                ...oldCache[packageConfigPath],
+                contentHash: await this.getScarbPackageHash(packageConfigPath),
+                outputPath: this.getScarbOutputPath(
+                    packageConfigPath,
+                    paths,
+                    oldCache[packageConfigPath]
+                ),
+                abiPath: undefined,
+                sourceType: "scarb"
             };
         }
 
         return newCacheEntry;
     }
 
-    // Gets cache entry of a given cairo file plus artifacts
+    /**
+     * Hashes a source and the files it imports, the same way as when recording it in the cache.
+     * @param file the source file, or the Scarb.toml of a package
+     * @param sourceType how `file` is compiled
+     * @param cairoPathArg colon-separated paths where Cairo 0 imports are looked for, as provided via --cairo-path
+     */
+    public async getSourceHashes(
+        file: string,
+        sourceType: SourceType,
+        cairoPathArg?: string
+    ): Promise<Pick<ContractData, "contentHash" | "dependencies">> {
+        return {
+            contentHash:
+                sourceType === "scarb"
+                    ? await this.getScarbPackageHash(file)
+                    : await this.getFileHash(file),
+            dependencies: await this.getDependencyHashes(file, sourceType, cairoPathArg)
+        };
+    }
+
+    // Gets cache entry of a given source plus artifacts and the options it was compiled with
     private async getCacheEntry(
+        args: TaskArguments,
+        sourceType: SourceType,
         file: string,
         output: string,
-        abi: string,
-        cairoPath?: string,
-        args?: TaskArguments
+        abi?: string
     ): Promise<Record<string, ContractData>> {
-        const data = await this.cache.fsPromises.readFile(file);
-        const hash = createHash("sha256");
-        hash.update(data);
+        const contentHash =
+            sourceType === "scarb"
+                ? await this.getScarbPackageHash(file)
+                : await this.getFileHash(file);
 
-        const newCacheEntry: Record<string, ContractData> = {};
-        newCacheEntry[file] = {
-            contentHash: hash.digest("hex").toString(),
+        const entry: ContractData = {
+            contentHash,
             outputPath: output,
-            abiPath: abi
+            abiPath: abi,
+            sourceType
         };
 
-        if (args?.disableHintValidation) {
-            newCacheEntry[file].disableHintValidation = true;
-        }
-
-        if (args?.accountContract) {
-            newCacheEntry[file].accountContract = true;
-        }
-
-        if (cairoPath) {
-            newCacheEntry[file].cairoPath = args.cairoPath;
+        for (const option of RECORDED_OPTIONS[sourceType]) {
+            if (args?.[option]) {
+                Object.assign(entry, { [option]: args[option] });
+            }
         }
+        entry.dependencies = await this.getDependencyHashes(file, sourceType, entry.cairoPath);
+        entry.compilerSettings = this.getRecordedCompilerSettings(file, sourceType);
 
+        const newCacheEntry: Record<string, ContractData> = {};
+        newCacheEntry[file] = entry;
         return newCacheEntry;
     }
 
@@ -156,9 +428,8 @@ export class Recompiler {
     ): Record<string, ContractData> {
         const updatedCacheEntry: Record<string, ContractData> = oldCache;
         for (const contractName in newCacheEntry) {
-            if (oldCache[contractName]?.contentHash !== newCacheEntry[contractName].contentHash) {
-                updatedCacheEntry[contractName] = newCacheEntry[contractName];
-            }
+            // Always overwritten so that the most recently used options are recorded
+            updatedCacheEntry[contractName] = newCacheEntry[contractName];
         }
 
         return updatedCacheEntry;
@@ -166,24 +437,14 @@ export class Recompiler {
 
     // Checks artifacts availability
     private async checkArtifacts(
-        paths: ProjectPathsConfig,
         newCacheEntry: Record<string, ContractData>
     ): Promise<Set<string>> {
         // Set to save contracts with changed content & unavailable artifacts
         const changed: Set<string> = new Set();
-        const { starknetSources: defaultSourcesPath } = paths;
-        const artifactsDir = getArtifactPath(defaultSourcesPath, paths);
-        // Traverse on artifacts directory
-        // Create if it doesn't exist
-        if (!fs.existsSync(artifactsDir)) {
-            fs.mkdirSync(artifactsDir, { recursive: true });
-        }
-
-        const artifactsList = await traverseFiles(artifactsDir, "*.json");
         for (const name in newCacheEntry) {
-            const outputPath = newCacheEntry[name].outputPath;
-            const abiPath = newCacheEntry[name].abiPath;
-            if (!artifactsList.includes(outputPath) || !artifactsList.includes(abiPath)) {
+            const { outputPath, abiPath } = newCacheEntry[name];
+            const expectedArtifacts = abiPath ? [outputPath, abiPath] : [outputPath];
+            if (!expectedArtifacts.every((artifact) => fs.existsSync(artifact))) {
                 changed.add(name);
             }
         }
@@ -191,21 +452,79 @@ export class Recompiler {
         return changed;
     }
 
-    // Compile changed contracts
-    private async compileChangedContracts(
+    // Groups changed sources by source type and the options they are compiled with:
+    // those recorded in the cache, or those of the running task for sources not compiled before
+    private groupChangedContracts(
+        oldCache: Record<string, ContractData>,
         newCacheEntry: Record<string, ContractData>,
-        changed: Set<string>
-    ): Promise<void> {
+        changed: Set<string>,
+        args?: TaskArguments
+    ): CompilationGroup[] {
+        const groups: Map<string, CompilationGroup> = new Map();
         for (const changedContract of changed) {
             const entry = newCacheEntry[changedContract];
-            const compileArguments: TaskArguments = {
-                paths: [changedContract],
-                disableHintValidation: entry?.disableHintValidation,
-                accountContract: entry?.accountContract,
-                cairoPath: entry?.cairoPath
-            };
+            const sourceType = entry?.sourceType || "cairo0";
+            const recordedOptions = oldCache[changedContract] ? entry : args;
+            const options: TaskArguments = {};
+            for (const option of RECORDED_OPTIONS[sourceType]) {
+                options[option] = recordedOptions?.[option];
+            }
+
+            const key = JSON.stringify([sourceType, options]);
+            if (!groups.has(key)) {
+                groups.set(key, { sourceType, options, sources: [] });
+            }
+            groups.get(key).sources.push(changedContract);
+        }
+        return [...groups.values()];
+    }
+
+    // Compile changed contracts, running the action matching the source type once per group
+    private async compileChangedContracts(
+        oldCache: Record<string, ContractData>,
+        newCacheEntry: Record<string, ContractData>,
+        changed: Set<string>,
+        args?: TaskArguments,
+        sourceType?: SourceType
+    ): Promise<void> {
+        const errors: string[] = [];
+        for (const group of this.groupChangedContracts(oldCache, newCacheEntry, changed, args)) {
+            if (sourceType && group.sourceType !== sourceType) {
+                for (const source of group.sources) {
+                    console.log(
+                        `Skipping ${source}: a ${group.sourceType} source, not ${sourceType}`
+                    );
+                }
+                continue;
+            }
+
+            try {
+                await this.compileGroup(group);
+            } catch (error) {
+                // keep compiling the rest, failures are reported at the end
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        if (errors.length) {
+            throw new StarknetPluginError(errors.join("\n"));
+        }
+    }
 
-            await starknetDeprecatedCompileAction(compileArguments, this.hre);
+    // Compile sources of a group with the action matching their source type
+    private async compileGroup({ sourceType, options, sources }: CompilationGroup): Promise<void> {
+        switch (sourceType) {
+            case "scarb":
+                await starknetBuildAction(
+                    { ...options, paths: sources.map((source) => path.dirname(source)) },
+                    this.hre
+                );
+                break;
+            case "cairo1":
+                await starknetCompileCairo1Action({ ...options, paths: sources }, this.hre);
+                break;
+            default:
+                await starknetDeprecatedCompileAction({ ...options, paths: sources }, this.hre);
         }
     }
 
@@ -225,28 +544,73 @@ export class Recompiler {
             // Add contracts that contain a change in content
             if (newCacheEntry[contractName].contentHash !== cache[contractName].contentHash) {
                 changed.add(contractName);
+                continue;
             }
-        }
 
-        // Remove deleted sources from old cache by overwriting it
-        this.cache.setCache(newCacheEntry);
-        await this.cache.saveCache();
+            // Add contracts whose imported files changed
+            if (
+                haveDependenciesChanged(
+                    cache[contractName].dependencies,
+                    newCacheEntry[contractName].dependencies
+                )
+            ) {
+                changed.add(contractName);
+                continue;
+            }
+
+            // Add contracts whose matching compiler settings changed
+            if (
+                haveCompilerSettingsChanged(
+                    cache[contractName].compilerSettings,
+                    newCacheEntry[contractName].compilerSettings
+                )
+            ) {
+                changed.add(contractName);
+            }
+        }
 
         return changed;
     }
 
+    /**
+     * Saves the cache once the changed sources were compiled. Their entries are those written by the compilation
+     * actions, so sources which failed compiling keep their old entries and are compiled again on the next run.
+     * Deleted sources are removed, while existing sources which were not traversed this time are kept.
+     */
+    private async saveCompiledCache(
+        newCacheEntry: Record<string, ContractData>,
+        changed: Set<string>,
+        sourcesPaths: string[]
+    ): Promise<void> {
+        // reloaded since the compilation actions update the cache file
+        await this.cache.loadCache();
+        const compiledCache = await this.cache.getCache();
+
+        const updatedCache: Record<string, ContractData> = {};
+        for (const contractName in compiledCache) {
+            if (
+                contractName in newCacheEntry ||
+                (!isWithin(contractName, sourcesPaths) && fs.existsSync(contractName))
+            ) {
+                updatedCache[contractName] = compiledCache[contractName];
+            }
+        }
+        for (const contractName in newCacheEntry) {
+            if (!changed.has(contractName)) {
+                updatedCache[contractName] = newCacheEntry[contractName];
+            }
+        }
+        this.cache.setCache(updatedCache);
+        await this.cache.saveCache();
+    }
+
     // Handles cache on Starknet cli calls
     public async handleCache(): Promise<void> {
         // If recompile is not enabled, do nothing
         if (!this.hre.userConfig?.starknet?.recompile) return;
 
-        const paths = this.hre.config.paths;
         try {
-            const oldCache = await this.cache.getCache();
-            const newCacheEntry = await this.getContractHash(paths);
-            const changedContracts = await this.checkArtifacts(paths, newCacheEntry);
-            const updatedSet = await this.updateSet(oldCache, newCacheEntry, changedContracts);
-            await this.compileChangedContracts(newCacheEntry, updatedSet);
+            await this.recompileChanged();
         } catch (error) {
             // If there is an error, do not recompile
             console.error(error);
@@ -254,18 +618,72 @@ export class Recompiler {
         }
     }
 
-    // Updates cache with new contract and artifacts
+    // Returns directories of Scarb packages built before
+    public async getScarbPackageDirs(): Promise<string[]> {
+        const cache = await this.cache.getCache();
+        return Object.keys(cache)
+            .filter((cachedPath) => cache[cachedPath].sourceType === "scarb")
+            .map((packageConfigPath) => path.dirname(packageConfigPath));
+    }
+
+    /**
+     * Compiles the sources which changed (or whose imports changed) or whose artifacts are missing.
+     * @param sourcesPaths absolute paths traversed for sources, defaults to `paths.starknetSources`
+     * @param force if set, all sources are compiled regardless of changes
+     * @param args arguments of the running compilation task, used for sources not compiled before
+     * @param sourceType if set, only sources of this type are compiled, while the others are skipped
+     * @returns the recompiled sources
+     */
+    public async recompileChanged(
+        sourcesPaths?: string[],
+        force = false,
+        args?: TaskArguments,
+        sourceType?: SourceType
+    ): Promise<string[]> {
+        const paths = this.hre.config.paths;
+        sourcesPaths ||= paths.starknetSources;
+
+        const oldCache = await this.cache.getCache();
+        const newCacheEntry = await this.getContractHash(paths, oldCache, sourcesPaths);
+        const changedContracts = force
+            ? new Set(Object.keys(newCacheEntry))
+            : await this.checkArtifacts(newCacheEntry);
+        const updatedSet = await this.updateSet(oldCache, newCacheEntry, changedContracts);
+        try {
+            await this.compileChangedContracts(
+                oldCache,
+                newCacheEntry,
+                updatedSet,
+                args,
+                sourceType
+            );
+        } finally {
+            await this.saveCompiledCache(newCacheEntry, updatedSet, sourcesPaths);
+        }
+        return [...updatedSet];
+    }
+
+    /**
+     * Updates cache with new contract and artifacts.
+     * @param args the arguments the compilation task was run with
+     * @param sourceType how `file` was compiled
+     * @param file the compiled source file, or the Scarb.toml of the built package
+     * @param output the main artifact
+     * @param abi the ABI artifact, if separate from the main one
+     * @returns the cache entry of `file`
+     */
     public async updateCache(
         args: TaskArguments,
+        sourceType: SourceType,
         file: string,
         output: string,
-        abi: string,
-        cairoPath?: string
-    ): Promise<void> {
+        abi?: string
+    ): Promise<ContractData> {
         const oldCache = await this.cache.getCache();
-        const newCacheEntry = await this.getCacheEntry(file, output, abi, cairoPath, args);
+        const newCacheEntry = await this.getCacheEntry(args, sourceType, file, output, abi);
         const updatedCache = this.getUpdatedCache(oldCache, newCacheEntry);
         this.cache.setCache(updatedCache);
+        return newCacheEntry[file];
     }
 
     // Calls save cache after compilation
@@ -2,7 +2,10 @@ import { ProcessResult } from "@nomiclabs/hardhat-docker";
 import { spawnSync } from "child_process";
 import { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
 import { StarknetPluginError } from "./starknet-plugin-error";
-import { PLUGIN_NAME } from "./constants";
+import { CAIRO_CLI_DOCKER_REPOSITORY, PLUGIN_NAME, SCARB_FEATURES_MIN_VERSION } from "./constants";
+import { getCairoCliImageTagByArch } from "./utils";
+import { ScarbBuildConfig } from "./types/starknet";
+import fs from "fs";
 import path from "path";
 import os from "os";
 
@@ -25,40 +28,115 @@ export abstract class ScarbWrapper {
         return this.instance;
     }
 
-    public abstract build(packageConfigPath: string, artifactDirPath: string): ProcessResult;
+    public abstract build(
+        packageConfigPath: string,
+        artifactDirPath: string,
+        options: ScarbBuildConfig
+    ): ProcessResult;
+
+    /**
+     * @returns the output of `scarb --version`
+     */
+    protected abstract getVersionOutput(): string;
+
+    /**
+     * Throws if the used Scarb doesn't support the provided options.
+     */
+    protected validateBuildOptions(options: ScarbBuildConfig): void {
+        if (!options.features?.length) {
+            return;
+        }
+
+        const versionOutput = this.getVersionOutput();
+        const version = versionOutput.match(/scarb (\d+)\.(\d+)\.(\d+)/);
+        if (version && compareVersions(version.slice(1), SCARB_FEATURES_MIN_VERSION) < 0) {
+            throw new StarknetPluginError(
+                `Enabling features requires Scarb ${SCARB_FEATURES_MIN_VERSION} or newer, ` +
+                    `but the used Scarb is ${version[0]}. Remove the features or use a newer Scarb.`
+            );
+        }
+    }
+
+    /**
+     * @param globalArgs Scarb options to be passed before the `build` subcommand
+     * @returns the arguments of a Scarb command building the package with the provided options
+     */
+    protected getBuildArgs(
+        packageConfigPath: string,
+        artifactDirPath: string,
+        options: ScarbBuildConfig,
+        globalArgs: string[] = []
+    ): string[] {
+        const args = [
+            ...["--manifest-path", packageConfigPath],
+            ...["--target-dir", artifactDirPath],
+            ...globalArgs
+        ];
+        if (options.profile) {
+            args.push("--profile", options.profile);
+        }
+
+        args.push("build");
+        if (options.features?.length) {
+            args.push("--features", options.features.join(","));
+        }
+        args.push(...(options.args || []));
+
+        return args;
+    }
+}
+
+/**
+ * @returns a negative number if `version` is older than `minVersion`, zero if equal, positive otherwise
+ */
+function compareVersions(version: string[], minVersion: string): number {
+    const minVersionParts = minVersion.split(".");
+    for (let i = 0; i < minVersionParts.length; ++i) {
+        const diff = parseInt(version[i]) - parseInt(minVersionParts[i]);
+        if (diff) {
+            return diff;
+        }
+    }
+    return 0;
 }
 
 export class DockerizedScarbWrapper extends ScarbWrapper {
     private formattedImage: string;
+    private versionOutput: string;
 
     constructor(imageTag: string, private projectRootPath: string) {
         super();
 
-        throw new StarknetPluginError(
-            "Dockerized Scarb is not yet supported. " +
-                "If you have Scarb installed on your machine, provide its path via scarbCommand in hardhat config, " +
-                "or via --scarb-command of hardhat starknet-build"
-        );
-        // UNCOMMENT THIS WHEN DOCKERIZED SCARB SUPPORTED
-        // const repository = CAIRO_CLI_DOCKER_REPOSITORY;
-        // const tag = getCairoCliImageTagByArch(imageTag);
-        // this.formattedImage = `${repository}:${tag}`;
+        const repository = CAIRO_CLI_DOCKER_REPOSITORY;
+        const tag = getCairoCliImageTagByArch(imageTag);
+        this.formattedImage = `${repository}:${tag}`;
 
-        // console.log(`${PLUGIN_NAME} plugin using dockerized Scarb (${this.formattedImage})`);
+        console.log(`${PLUGIN_NAME} plugin using dockerized Scarb (${this.formattedImage})`);
     }
 
-    public override build(packageConfigPath: string, artifactDirPath: string): ProcessResult {
+    public override build(
+        packageConfigPath: string,
+        artifactDirPath: string,
+        options: ScarbBuildConfig
+    ): ProcessResult {
+        this.validateBuildOptions(options);
         const packageDir = path.dirname(packageConfigPath);
 
         // If not specified, inside the container it tries to write cache to /.cache
         // which is not allowed for a non-root user. So here we are setting it to the path used by Scarb
         // in many non-docker environments
         const globalCacheDir = path.join(os.tmpdir(), ".cache", "scarb");
+
+        // mounted directories which don't exist are created by docker and owned by root
+        fs.mkdirSync(globalCacheDir, { recursive: true });
+        fs.mkdirSync(artifactDirPath, { recursive: true });
+
         const execution = spawnSync("docker", [
             "run",
             "--rm",
             ...["-v", `${packageDir}:${packageDir}`],
             ...["-v", `${this.projectRootPath}:${this.projectRootPath}`],
+            ...["-v", `${artifactDirPath}:${artifactDirPath}`],
             ...["-v", `${globalCacheDir}:${globalCacheDir}`],
 
             // https://unix.stackexchange.com/questions/627027/files-created-by-docker-container-are-owned-by-root
@@ -66,21 +144,50 @@ export class DockerizedScarbWrapper extends ScarbWrapper {
 
             this.formattedImage,
             "scarb",
-            ...["--manifest-path", packageConfigPath],
-            ...["--target-dir", artifactDirPath],
-            ...["--global-cache-dir", globalCacheDir],
-            "build"
+            ...this.getBuildArgs(packageConfigPath, artifactDirPath, options, [
+                ...["--global-cache-dir", globalCacheDir]
+            ])
         ]);
 
+        // e.g. if docker is not installed
+        if (execution.error) {
+            throw new StarknetPluginError(
+                `Could not run dockerized Scarb (${this.formattedImage}): ${execution.error.message}`
+            );
+        }
+
         return {
             statusCode: execution.status,
             stdout: execution.stdout,
             stderr: execution.stderr
         };
     }
+
+    protected override getVersionOutput(): string {
+        // only run the container if the version is actually needed
+        if (this.versionOutput === undefined) {
+            const execution = spawnSync("docker", [
+                "run",
+                "--rm",
+                this.formattedImage,
+                "scarb",
+                "--version"
+            ]);
+            if (execution.status !== 0) {
+                throw new StarknetPluginError(
+                    `Could not get the version of dockerized Scarb (${this.formattedImage}).\n` +
+                        (execution.error?.message || execution.stderr?.toString())
+                );
+            }
+            this.versionOutput = execution.stdout.toString();
+        }
+        return this.versionOutput;
+    }
 }
 
 export class CustomScarbWrapper extends ScarbWrapper {
+    private versionOutput: string;
+
     constructor(private scarbCommand: string) {
         super();
 
@@ -94,20 +201,29 @@ export class CustomScarbWrapper extends ScarbWrapper {
         }
 
         // log
-        const versionString = execution.stdout.toString().trim().split("\n").join(", ");
+        this.versionOutput = execution.stdout.toString();
+        const versionString = this.versionOutput.trim().split("\n").join(", ");
         console.log(`${PLUGIN_NAME} plugin using custom Scarb (${versionString})`);
     }
 
-    public override build(packageConfigPath: string, artifactDirPath: string): ProcessResult {
-        const execution = spawnSync(this.scarbCommand, [
-            ...["--manifest-path", packageConfigPath],
-            ...["--target-dir", artifactDirPath],
-            "build"
-        ]);
+    public override build(
+        packageConfigPath: string,
+        artifactDirPath: string,
+        options: ScarbBuildConfig
+    ): ProcessResult {
+        this.validateBuildOptions(options);
+        const execution = spawnSync(
+            this.scarbCommand,
+            this.getBuildArgs(packageConfigPath, artifactDirPath, options)
+        );
         return {
             statusCode: execution.status,
             stderr: execution.stderr,
             stdout: execution.stdout
         };
     }
+
+    protected override getVersionOutput(): string {
+        return this.versionOutput;
+    }
 }
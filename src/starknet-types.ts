@@ -15,6 +15,26 @@ export interface Struct {
     type: string;
 }
 
+export interface EnumVariant {
+    name: string;
+    type: string;
+}
+
+export interface Enum {
+    type: "enum";
+    name: string;
+    variants: EnumVariant[];
+}
+
+/**
+ * The Cairo 1 `ByteArray` struct: a string split into 31-byte words, followed by the remaining bytes
+ */
+export interface ByteArray {
+    data: bigint[];
+    pending_word: bigint;
+    pending_word_len: number;
+}
+
 export interface Argument {
     name?: string;
     type: string;
@@ -42,11 +62,20 @@ export interface Interface {
     items: AbiEntry[];
 }
 
+/**
+ * Implementation of a Cairo 1 interface, whose functions are listed in the interface
+ */
+export interface Impl {
+    type: "impl";
+    name: string;
+    interface_name: string;
+}
+
 export interface EventAbi {
     [encodedName: string]: EventSpecification;
 }
 
-export type AbiEntry = CairoFunction | Struct | EventSpecification | Interface;
+export type AbiEntry = CairoFunction | Struct | Enum | EventSpecification | Interface | Impl;
 
 export interface Abi {
     [name: string]: AbiEntry;
@@ -4,7 +4,13 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 import path from "path";
 import { num, selector } from "starknet";
 
+import { CompilerDescription } from "./artifact-meta";
 import { DockerCairo1Compiler, exec } from "./cairo1-compiler";
+import {
+    computeCompiledClassHash,
+    computeDeprecatedClassHash,
+    computeSierraClassHash
+} from "./class-hash";
 import {
     CAIRO1_COMPILE_BIN,
     CAIRO1_SIERRA_COMPILE_BIN,
@@ -18,6 +24,7 @@ import { StarknetPluginError } from "./starknet-plugin-error";
 import { FeeEstimation } from "./starknet-types";
 import { StarknetVenvProxy } from "./starknet-venv-proxy";
 import { BlockNumber } from "./types";
+import { getCairoCliImageTagByArch } from "./utils";
 import { getPrefixedCommand, normalizeVenvPath } from "./utils/venv";
 
 interface CompileWrapperOptions {
@@ -29,20 +36,27 @@ interface CompileWrapperOptions {
     disableHintValidation: boolean;
 }
 
-interface CairoToSierraOptions {
+/**
+ * Selects the Cairo 1 compiler: by the directory of its binaries in venv mode,
+ * or by the version of the dockerized environment containing it in Docker mode
+ */
+interface Cairo1CompilerOptions {
+    binDirPath?: string;
+    dockerizedVersion?: string;
+}
+
+interface CairoToSierraOptions extends Cairo1CompilerOptions {
     path: string;
     output: string;
-    binDirPath?: string;
     replaceIds?: boolean;
     allowedLibfuncsListName?: string;
     allowedLibfuncsListFile?: string;
     singleFile?: boolean;
 }
 
-interface SierraToCasmOptions {
+interface SierraToCasmOptions extends Cairo1CompilerOptions {
     file: string;
     output: string;
-    binDirPath?: string;
     allowedLibfuncsListName?: string;
     allowedLibfuncsListFile?: string;
     addPythonicHints?: boolean;
@@ -153,6 +167,24 @@ export abstract class StarknetWrapper {
 
     public abstract compileSierraToCasm(options: SierraToCasmOptions): Promise<ProcessResult>;
 
+    /**
+     * Describes the Cairo 1 compiler selected by `options`, including the version it reports.
+     */
+    public abstract describeCairo1Compiler(
+        options: Cairo1CompilerOptions
+    ): Promise<CompilerDescription>;
+
+    /**
+     * Extracts the version from the output of `starknet-compile --version`, e.g. `starknet-compile 2.1.0`.
+     */
+    protected parseCairo1CompilerVersion(executed: ProcessResult): string {
+        const output = `${executed.stdout.toString()} ${executed.stderr.toString()}`.trim();
+        if (executed.statusCode || !output) {
+            return "unknown";
+        }
+        return output.split(/\s+/).pop();
+    }
+
     protected prepareCairoToSierraOptions(options: CairoToSierraOptions): string[] {
         const args = [];
 
@@ -253,28 +285,27 @@ export abstract class StarknetWrapper {
         );
     }
 
-    public async getClassHash(artifactPath: string): Promise<string> {
-        const executed = await this.execute("get_class_hash", [artifactPath]);
-        if (executed.statusCode) {
-            throw new StarknetPluginError(executed.stderr.toString());
+    private computeHash(compute: (artifactPath: string) => string, artifactPath: string): string {
+        try {
+            return compute(artifactPath);
+        } catch (error) {
+            if (!(error instanceof Error)) throw error;
+
+            const msg = `Could not compute the hash of ${artifactPath}: ${error.message}`;
+            throw new StarknetPluginError(msg, error);
         }
-        return executed.stdout.toString().trim();
+    }
+
+    public async getClassHash(artifactPath: string): Promise<string> {
+        return this.computeHash(computeDeprecatedClassHash, artifactPath);
     }
 
     public async getCompiledClassHash(casmPath: string): Promise<string> {
-        const executed = await this.execute("get_compiled_class_hash", [casmPath]);
-        if (executed.statusCode) {
-            throw new StarknetPluginError(executed.stderr.toString());
-        }
-        return executed.stdout.toString().trim();
+        return this.computeHash(computeCompiledClassHash, casmPath);
     }
 
-    public async getSierraContractClassHash(casmPath: string): Promise<string> {
-        const executed = await this.execute("get_contract_class_hash", [casmPath]);
-        if (executed.statusCode) {
-            throw new StarknetPluginError(executed.stderr.toString());
-        }
-        return executed.stdout.toString().trim();
+    public async getSierraContractClassHash(sierraPath: string): Promise<string> {
+        return this.computeHash(computeSierraClassHash, sierraPath);
     }
 
     public async migrateContract(options: MigrateContractWrapperOptions): Promise<ProcessResult> {
@@ -323,6 +354,10 @@ function getFullImageName(image: Image): string {
 }
 
 export class DockerWrapper extends StarknetWrapper {
+    // compilers by the tag of the image containing them
+    private cairo1Compilers: Map<string, DockerCairo1Compiler> = new Map();
+    private cairo1CompilerVersions: Map<string, Promise<string>> = new Map();
+
     constructor(
         private image: Image,
         private rootPath: string,
@@ -336,12 +371,32 @@ export class DockerWrapper extends StarknetWrapper {
         );
     }
 
+    private getCairo1Image(dockerizedVersion?: string): Image {
+        return dockerizedVersion
+            ? {
+                  repository: this.image.repository,
+                  tag: getCairoCliImageTagByArch(dockerizedVersion)
+              }
+            : this.image;
+    }
+
+    /**
+     * Returns the compiler of the dockerized environment of `dockerizedVersion`, or else of the configured one.
+     * A compiler's container is only started once the first compilation is requested.
+     */
+    private getCairo1Compiler(dockerizedVersion?: string): DockerCairo1Compiler {
+        const image = this.getCairo1Image(dockerizedVersion);
+        if (!this.cairo1Compilers.has(image.tag)) {
+            this.cairo1Compilers.set(image.tag, new DockerCairo1Compiler(image, [this.rootPath]));
+        }
+        return this.cairo1Compilers.get(image.tag);
+    }
+
     public async compileCairoToSierra(options: CairoToSierraOptions): Promise<ProcessResult> {
         const args = this.prepareCairoToSierraOptions(options);
         const command = this.getCairo1Command(DOCKER_HOST_BIN_PATH, CAIRO1_COMPILE_BIN, args);
-        const externalServer = new DockerCairo1Compiler(this.image, [this.rootPath], command);
 
-        return await externalServer.compileCairo1();
+        return await this.getCairo1Compiler(options.dockerizedVersion).compileCairo1(command);
     }
 
     public async compileSierraToCasm(options: SierraToCasmOptions): Promise<ProcessResult> {
@@ -351,13 +406,35 @@ export class DockerWrapper extends StarknetWrapper {
             CAIRO1_SIERRA_COMPILE_BIN,
             args
         );
-        const externalServer = new DockerCairo1Compiler(this.image, [this.rootPath], command);
 
-        return await externalServer.compileCairo1();
+        return await this.getCairo1Compiler(options.dockerizedVersion).compileCairo1(command);
+    }
+
+    public async describeCairo1Compiler(
+        options: Cairo1CompilerOptions
+    ): Promise<CompilerDescription> {
+        const image = this.getCairo1Image(options.dockerizedVersion);
+        if (!this.cairo1CompilerVersions.has(image.tag)) {
+            const command = this.getCairo1Command(DOCKER_HOST_BIN_PATH, CAIRO1_COMPILE_BIN, [
+                "--version"
+            ]);
+            const version = this.getCairo1Compiler(options.dockerizedVersion)
+                .compileCairo1(command)
+                .then((executed) => this.parseCairo1CompilerVersion(executed));
+            this.cairo1CompilerVersions.set(image.tag, version);
+        }
+
+        return {
+            version: await this.cairo1CompilerVersions.get(image.tag),
+            image: getFullImageName(image)
+        };
     }
 }
 
 export class VenvWrapper extends StarknetWrapper {
+    // versions by compiler bin directory
+    private cairo1CompilerVersions: Map<string, Promise<string>> = new Map();
+
     constructor(venvPath: string, hre: HardhatRuntimeEnvironment) {
         let pythonPath: string;
         if (venvPath === "active") {
@@ -376,19 +453,50 @@ export class VenvWrapper extends StarknetWrapper {
         return this.hre.starknet.networkConfig.url;
     }
 
+    private checkNotDockerized(options: Cairo1CompilerOptions) {
+        if (options.dockerizedVersion) {
+            const msg =
+                `Cannot use the dockerized Cairo 1 compiler of version ${options.dockerizedVersion} in venv mode. ` +
+                "Specify the directory of the compiler with cairo1BinDir instead.";
+            throw new StarknetPluginError(msg);
+        }
+    }
+
     public async compileCairoToSierra(options: CairoToSierraOptions): Promise<ProcessResult> {
+        this.checkNotDockerized(options);
         const args = this.prepareCairoToSierraOptions(options);
         const command = this.getCairo1Command(options.binDirPath, CAIRO1_COMPILE_BIN, args);
 
-        const executed = exec(command.join(" "));
+        const executed = await exec(command.join(" "));
         return executed;
     }
 
     public async compileSierraToCasm(options: SierraToCasmOptions): Promise<ProcessResult> {
+        this.checkNotDockerized(options);
         const args = this.prepareSierraToCasmOptions(options);
         const command = this.getCairo1Command(options.binDirPath, CAIRO1_SIERRA_COMPILE_BIN, args);
 
-        const executed = exec(command.join(" "));
+        const executed = await exec(command.join(" "));
         return executed;
     }
+
+    public async describeCairo1Compiler(
+        options: Cairo1CompilerOptions
+    ): Promise<CompilerDescription> {
+        this.checkNotDockerized(options);
+        const command = this.getCairo1Command(options.binDirPath, CAIRO1_COMPILE_BIN, [
+            "--version"
+        ]);
+        if (!this.cairo1CompilerVersions.has(options.binDirPath)) {
+            const version = exec(command.join(" ")).then((executed) =>
+                this.parseCairo1CompilerVersion(executed)
+            );
+            this.cairo1CompilerVersions.set(options.binDirPath, version);
+        }
+
+        return {
+            version: await this.cairo1CompilerVersions.get(options.binDirPath),
+            binDir: options.binDirPath
+        };
+    }
 }
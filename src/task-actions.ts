@@ -8,10 +8,28 @@ import {
     ALPHA_TESTNET,
     CAIRO1_SIERRA_SUFFIX,
     CAIRO1_ASSEMBLY_SUFFIX,
-    DEFAULT_STARKNET_NETWORK
+    DEFAULT_DIAGNOSTICS_FILE_NAME,
+    DEFAULT_MAX_CASM_BYTECODE_LENGTH,
+    DEFAULT_STARKNET_NETWORK,
+    DEFAULT_STARKNET_TYPINGS_PATH,
+    INTERNAL_ARTIFACTS_DIR,
+    SCARB_CONFIG_FILE_NAME,
+    SCARB_DEFAULT_PROFILE,
+    SCARB_MAIN_ARTIFACT_SUFFIX
 } from "./constants";
 import { ProcessResult } from "@nomiclabs/hardhat-docker";
-import { adaptLog, traverseFiles, getNetwork, isStarknetDevnet, adaptPath } from "./utils";
+import {
+    adaptLog,
+    getArtifactPath,
+    getPathInSourcesRoot,
+    traverseFiles,
+    getNetwork,
+    isStarknetDevnet,
+    adaptPath,
+    runConcurrently,
+    getScarbContractModulePath
+} from "./utils";
+import { globSync } from "glob";
 import {
     HardhatNetworkConfig,
     HardhatRuntimeEnvironment,
@@ -20,12 +38,23 @@ import {
     TaskArguments
 } from "hardhat/types";
 import { createIntegratedDevnet } from "./external-server";
-import { Recompiler } from "./recompiler";
+import { CACHE_FILE_NAME, ContractData, Recompiler, SourceType } from "./recompiler";
 import { version } from "../package.json";
-import { StarknetConfig } from "./types/starknet";
+import { CompilerSettings, ScarbBuildConfig, StarknetConfig } from "./types/starknet";
 import * as toml from "@iarna/toml";
 import { ScarbWrapper } from "./scarb-wrapper";
-import { ScarbConfig } from "./types";
+import { ScarbConfig, ScarbContractEntry } from "./types";
+import { watchSources } from "./watcher";
+import { writeArtifactIndex } from "./artifact-index";
+import { generateTypings } from "./typegen";
+import { DIAGNOSTICS_FORMATS, DiagnosticsFormat, DiagnosticsReport } from "./diagnostics";
+import { ContractSizeReport, findCairo1Artifacts } from "./contract-size";
+import {
+    getArtifactProblems,
+    loadArtifactMeta,
+    readArtifactCompilerVersion,
+    writeArtifactMeta
+} from "./artifact-meta";
 
 function checkSourceExists(sourcePath: string): void {
     if (!fs.existsSync(sourcePath)) {
@@ -34,31 +63,104 @@ function checkSourceExists(sourcePath: string): void {
     }
 }
 
+type Logger = Pick<Console, "log" | "error">;
+
+/**
+ * Holds back log messages until flushed, so that the output of concurrently executed tasks
+ * is not interleaved.
+ */
+class BufferedLogger implements Logger {
+    private messages: { isError: boolean; args: unknown[] }[] = [];
+
+    log(...args: unknown[]) {
+        this.messages.push({ isError: false, args });
+    }
+
+    error(...args: unknown[]) {
+        this.messages.push({ isError: true, args });
+    }
+
+    flush() {
+        for (const { isError, args } of this.messages) {
+            if (isError) {
+                console.error(...args);
+            } else {
+                console.log(...args);
+            }
+        }
+        this.messages = [];
+    }
+}
+
 /**
  * Transfers logs and generates a return status code.
  *
  * @param executed The process result of running the container
+ * @param logger where the logs are transferred to
  * @returns 0 if succeeded, 1 otherwise
  */
-function processExecuted(executed: ProcessResult, logStatus: boolean): number {
+function processExecuted(
+    executed: ProcessResult,
+    logStatus: boolean,
+    logger: Logger = console
+): number {
     if (executed.stdout.length) {
-        console.log(adaptLog(executed.stdout.toString()));
+        logger.log(adaptLog(executed.stdout.toString()));
     }
 
     if (executed.stderr.length) {
         // synchronize param names reported by actual CLI with param names used by this plugin
         const err = executed.stderr.toString();
         const replacedErr = adaptLog(err);
-        console.error(replacedErr);
+        logger.error(replacedErr);
     }
 
     if (logStatus) {
         const finalMsg = executed.statusCode ? "Failed" : "Succeeded ✅";
-        console.log(`\t${finalMsg}\n`);
+        logger.log(`\t${finalMsg}\n`);
     }
     return executed.statusCode ? 1 : 0;
 }
 
+/**
+ * Creates the report which collects compiler diagnostics; fails early if the requested format is not supported.
+ */
+function createDiagnosticsReport(args: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    if (args.diagnosticsFormat && !DIAGNOSTICS_FORMATS.includes(args.diagnosticsFormat)) {
+        const msg =
+            `Invalid diagnostics format: ${args.diagnosticsFormat}. ` +
+            `Valid formats: ${DIAGNOSTICS_FORMATS.join(", ")}`;
+        throw new StarknetPluginError(msg);
+    }
+
+    return new DiagnosticsReport(hre.config.paths.root);
+}
+
+/**
+ * Prints the summary of the collected diagnostics and, if requested, writes them to a file.
+ * The format is taken from --diagnostics-format, or else from the extension of --diagnostics-output.
+ */
+function reportDiagnostics(
+    report: DiagnosticsReport,
+    args: TaskArguments,
+    hre: HardhatRuntimeEnvironment
+) {
+    report.printSummary();
+
+    if (!args.diagnosticsFormat && !args.diagnosticsOutput) {
+        return;
+    }
+
+    const format: DiagnosticsFormat =
+        args.diagnosticsFormat || (args.diagnosticsOutput.endsWith(".sarif") ? "sarif" : "json");
+    const outputPath = adaptPath(
+        hre.config.paths.root,
+        args.diagnosticsOutput || `${DEFAULT_DIAGNOSTICS_FILE_NAME}.${format}`
+    );
+    report.write(format, outputPath);
+    console.log(`Diagnostics written to ${outputPath}`);
+}
+
 /**
  * First deletes the file if it already exists. Then creates an empty file at the provided path.
  * Unlinking/deleting is necessary if user switched from docker to venv.
@@ -80,6 +182,92 @@ function getCompilerBinDir(args: TaskArguments, config: StarknetConfig): string
     return args?.cairo1BinDir || config.cairo1BinDir;
 }
 
+function getCompileConcurrency(args: TaskArguments, config: StarknetConfig): number {
+    // give precedence to CLI input over config file
+    const concurrency = args?.parallel ?? config.compileConcurrency ?? 1;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        const msg = `Compilation concurrency must be a positive integer. Got: ${concurrency}`;
+        throw new StarknetPluginError(msg);
+    }
+    return concurrency;
+}
+
+/**
+ * Merges the settings of all `starknet.compilerSettings` patterns matching `file`, in the order of declaration.
+ * `file` is the absolute path of the source file.
+ */
+export type CompilerSettingsResolver = (file: string) => CompilerSettings;
+
+/**
+ * Expands the `starknet.compilerSettings` patterns once, so that resolving the settings of each compiled file
+ * does not traverse the project again. Files created afterwards are only matched by a newly created resolver.
+ */
+export function createCompilerSettingsResolver(
+    hre: HardhatRuntimeEnvironment
+): CompilerSettingsResolver {
+    const root = hre.config.paths.root;
+    const expandedPatterns = Object.entries(hre.config.starknet.compilerSettings || {}).map(
+        ([pattern, patternSettings]) => ({
+            matchedFiles: new Set(globSync(pattern, { cwd: root, absolute: true, nodir: true })),
+            patternSettings
+        })
+    );
+
+    return (file) => {
+        const resolvedFile = path.resolve(file);
+        const settings: CompilerSettings = {};
+        for (const { matchedFiles, patternSettings } of expandedPatterns) {
+            if (matchedFiles.has(resolvedFile)) {
+                Object.assign(settings, patternSettings);
+            }
+        }
+        return settings;
+    };
+}
+
+/**
+ * Returns the arguments `file` is compiled with: the settings of matching patterns, overridden by CLI input.
+ * Warns about the settings which are overridden by a different CLI value.
+ */
+function getFileCompileArgs(
+    args: TaskArguments,
+    file: string,
+    getCompilerSettings: CompilerSettingsResolver,
+    logger: Logger = console
+): TaskArguments {
+    const fileArgs = { ...args };
+    for (const [option, value] of Object.entries(getCompilerSettings(file))) {
+        // unset CLI flags are false
+        const cliValue = args[option];
+        if (cliValue === undefined || cliValue === false) {
+            fileArgs[option] = value;
+        } else if (cliValue !== value) {
+            logger.error(
+                `Warning: ${option} of compilerSettings (${value}) is overridden by the CLI (${cliValue}) for ${file}`
+            );
+        }
+    }
+    return fileArgs;
+}
+
+/**
+ * Resolves the options of building Scarb packages, giving precedence to CLI input over config file.
+ * `--features` and `--scarb-args` are received as comma- and space-separated strings, respectively.
+ */
+export function getScarbBuildOptions(
+    args: TaskArguments,
+    config: StarknetConfig
+): ScarbBuildConfig {
+    const configOptions = config.scarb || {};
+    return {
+        profile: args?.profile || configOptions.profile || SCARB_DEFAULT_PROFILE,
+        features: args?.features
+            ? args.features.split(",").map((feature: string) => feature.trim())
+            : configOptions.features || [],
+        args: args?.scarbArgs ? args.scarbArgs.trim().split(/\s+/) : configOptions.args || []
+    };
+}
+
 class ScarbConfigValidationError extends StarknetPluginError {
     constructor(path: string, message: string, parent?: Error) {
         super(
@@ -90,13 +278,14 @@ class ScarbConfigValidationError extends StarknetPluginError {
     }
 }
 
-function loadScarbTomlFromPath(tomlPath: string, validate: boolean): ScarbConfig {
+export function loadScarbTomlFromPath(tomlPath: string, validate: boolean): ScarbConfig {
     const config = toml.parse(
         fs.readFileSync(tomlPath, "utf-8").toString()
     ) as unknown as ScarbConfig;
-    const packageName = config.package.name;
+    const packageName = config.package?.name;
 
-    if (validate) {
+    // a virtual workspace manifest has no package, so there is no target to validate
+    if (validate && config.package) {
         // it's an array of possible compilation configs
         const contractTargetConfigs = config?.target["starknet-contract"] || [];
         const configCandidates = contractTargetConfigs.filter(
@@ -124,11 +313,55 @@ function loadScarbTomlFromPath(tomlPath: string, validate: boolean): ScarbConfig
     return config;
 }
 
+/**
+ * Returns paths of the manifests of the packages which are members of the workspace defined in `tomlPath`.
+ * Members can be specified as directories or glob patterns, relative to the workspace root.
+ * Returns an empty array if the manifest doesn't define a workspace.
+ */
+export function getScarbWorkspaceMemberPaths(tomlPath: string, config?: ScarbConfig): string[] {
+    config = config || loadScarbTomlFromPath(tomlPath, false);
+    const workspaceDir = path.dirname(tomlPath);
+
+    const memberPaths: Set<string> = new Set();
+    for (const memberPattern of config.workspace?.members || []) {
+        const memberDirs = globSync(memberPattern, { cwd: workspaceDir, absolute: true });
+        for (const memberDir of memberDirs.sort()) {
+            const memberPath = path.join(memberDir, SCARB_CONFIG_FILE_NAME);
+            if (fs.existsSync(memberPath)) {
+                memberPaths.add(memberPath);
+            }
+        }
+    }
+    return [...memberPaths];
+}
+
+/**
+ * Returns the names of the packages built with the manifest in `tomlPath`:
+ * its own package (if defined) and the packages of the workspace members (if any).
+ * @param validate whether the manifests of the packages should be validated
+ */
+export function getScarbPackageNames(tomlPath: string, validate: boolean): string[] {
+    const config = loadScarbTomlFromPath(tomlPath, validate);
+    const packageNames = config.package ? [config.package.name] : [];
+    for (const memberPath of getScarbWorkspaceMemberPaths(tomlPath, config)) {
+        const memberName = loadScarbTomlFromPath(memberPath, validate).package?.name;
+        if (memberName && !packageNames.includes(memberName)) {
+            packageNames.push(memberName);
+        }
+    }
+
+    if (!packageNames.length) {
+        throw new StarknetPluginError(`No packages defined in ${tomlPath}`);
+    }
+    return packageNames;
+}
+
+export function getScarbMainArtifactPath(scarbArtifactDirPath: string, packageName: string) {
+    return path.join(scarbArtifactDirPath, `${packageName}${SCARB_MAIN_ARTIFACT_SUFFIX}`);
+}
+
 function loadScarbMainArtifact(scarbArtifactDirPath: string, packageName: string) {
-    const mainPackageArtifactPath = path.join(
-        scarbArtifactDirPath,
-        `${packageName}.starknet_artifacts.json`
-    );
+    const mainPackageArtifactPath = getScarbMainArtifactPath(scarbArtifactDirPath, packageName);
     if (!fs.existsSync(mainPackageArtifactPath)) {
         const msg = `Error in building ${packageName}, could not find ${mainPackageArtifactPath}`;
         throw new StarknetPluginError(msg);
@@ -139,7 +372,7 @@ function loadScarbMainArtifact(scarbArtifactDirPath: string, packageName: string
 async function findPackageConfigPaths(
     traversablePaths: string[],
     root: string,
-    configFileName = "Scarb.toml"
+    configFileName = SCARB_CONFIG_FILE_NAME
 ) {
     // collect all package configs by traversing provided paths
     const packageConfigPaths: string[] = [];
@@ -157,108 +390,311 @@ async function findPackageConfigPaths(
         throw new StarknetPluginError(msg);
     }
 
-    return packageConfigPaths;
+    // workspace members are built through the workspace root, so they are not built on their own
+    const memberPaths: Set<string> = new Set();
+    for (const packageConfigPath of packageConfigPaths) {
+        try {
+            getScarbWorkspaceMemberPaths(packageConfigPath).forEach((p) => memberPaths.add(p));
+        } catch (error) {
+            // an invalid manifest is reported when it's being built
+        }
+    }
+
+    return [...new Set(packageConfigPaths)].filter((p) => !memberPaths.has(p));
 }
 
-export async function starknetCompileCairo1Action(
-    args: TaskArguments,
-    hre: HardhatRuntimeEnvironment
-) {
-    const binDirPath = getCompilerBinDir(args, hre.config.starknet);
+/**
+ * Paths of the artifacts of a contract built by Scarb, after copying; undefined if not built
+ */
+interface CopiedArtifacts {
+    sierraPath?: string;
+    abiPath?: string;
+    casmPath?: string;
+}
 
-    const root = hre.config.paths.root;
-    const rootRegex = new RegExp("^" + root);
+/**
+ * Copies the artifacts of a contract built by Scarb into `ourArtifactDirPath`, naming them after `fileName`.
+ */
+function copyScarbContractArtifacts(
+    scarbArtifactDirPath: string,
+    contractEntry: ScarbContractEntry,
+    ourArtifactDirPath: string,
+    fileName: string
+): CopiedArtifacts {
+    fs.mkdirSync(ourArtifactDirPath, { recursive: true });
+    const copiedPaths: CopiedArtifacts = {};
+
+    // this is false if user skipped validation
+    if (contractEntry.artifacts.sierra) {
+        const scarbSierraPath = path.join(scarbArtifactDirPath, contractEntry.artifacts.sierra);
+        const ourSierraPath = path.join(ourArtifactDirPath, `${fileName}${CAIRO1_SIERRA_SUFFIX}`);
+        fs.copyFileSync(scarbSierraPath, ourSierraPath);
+        copiedPaths.sierraPath = ourSierraPath;
+
+        // Copy abi array from output to abiOutput
+        const abiOutput = path.join(ourArtifactDirPath, `${fileName}${ABI_SUFFIX}`);
+        initializeFile(abiOutput);
+
+        const outputJson = JSON.parse(fs.readFileSync(scarbSierraPath, "utf-8"));
+        fs.writeFileSync(abiOutput, JSON.stringify(outputJson.abi) + "\n");
+        copiedPaths.abiPath = abiOutput;
+    }
 
-    const defaultSourcesPath = hre.config.paths.starknetSources;
-    const sourcesPaths: string[] = args.paths || [defaultSourcesPath];
-    const artifactsPath = hre.config.paths.starknetArtifacts;
+    // this is false if user skipped validation
+    if (contractEntry.artifacts.casm) {
+        const scarbCasmPath = path.join(scarbArtifactDirPath, contractEntry.artifacts.casm);
+        const ourCasmPath = path.join(ourArtifactDirPath, `${fileName}${CAIRO1_ASSEMBLY_SUFFIX}`);
+        fs.copyFileSync(scarbCasmPath, ourCasmPath);
+        copiedPaths.casmPath = ourCasmPath;
+    }
 
-    let statusCode = 0;
-    for (let sourcesPath of sourcesPaths) {
-        sourcesPath = adaptPath(root, sourcesPath);
-        checkSourceExists(sourcesPath);
+    return copiedPaths;
+}
 
-        const recompiler = new Recompiler(hre);
-        const files = await traverseFiles(sourcesPath, "*.cairo");
-        for (const file of files) {
-            console.log("Compiling", file);
+/**
+ * Copies the artifacts of contracts from a package built by Scarb,
+ * so that they are compatible with our contract loading mechanisms.
+ * Each contract is stored under its qualified name (e.g. `my_pkg/tokens/ERC20.cairo/`)
+ * and, for compatibility, under its underscore-separated name (e.g. `my_pkg_ERC20.cairo/`).
+ * @param scarbArtifactDirPath the directory into which Scarb stored the artifacts of the used profile
+ * @param artifactDirPath the directory into which the artifacts are copied
+ * @param packageName the name of the built package
+ * @returns the paths of the artifacts of each contract, copied under its qualified and underscore-separated name
+ */
+function copyScarbArtifacts(
+    scarbArtifactDirPath: string,
+    artifactDirPath: string,
+    packageName: string
+): { qualified: CopiedArtifacts; underscored?: CopiedArtifacts }[] {
+    // load scarb's main build artifact
+    const mainPackageArtifact = loadScarbMainArtifact(scarbArtifactDirPath, packageName);
+    const contractEntries: ScarbContractEntry[] = mainPackageArtifact.contracts;
+
+    const underscoreNames = contractEntries.map(
+        (contractEntry) => `${contractEntry.package_name}_${contractEntry.contract_name}`
+    );
 
-            const dirSuffix = file.replace(rootRegex, "");
-            const fileName = getFileName(dirSuffix);
-            const dirPath = path.join(artifactsPath, dirSuffix);
-            const outputPath = path.join(dirPath, `${fileName}${CAIRO1_SIERRA_SUFFIX}`);
+    return contractEntries.map((contractEntry, i) => {
+        const modulePath = getScarbContractModulePath(contractEntry);
+        const qualified = copyScarbContractArtifacts(
+            scarbArtifactDirPath,
+            contractEntry,
+            path.join(artifactDirPath, `${path.join(...modulePath.split("::"))}.cairo`),
+            contractEntry.contract_name
+        );
 
-            fs.mkdirSync(dirPath, { recursive: true });
-            initializeFile(outputPath);
+        // package_contract (underscore separation)
+        const fileName = underscoreNames[i];
+        if (underscoreNames.indexOf(fileName) !== underscoreNames.lastIndexOf(fileName)) {
+            console.warn(
+                `Warning: Multiple contracts of package ${packageName} are named ${contractEntry.contract_name}. ` +
+                    `Load ${modulePath} by its qualified name.`
+            );
+            return { qualified };
+        }
+        // artifact dir created by us, not the one created by scarb
+        const ourArtifactDirPath = path.join(artifactDirPath, `${fileName}.cairo`);
+        const underscored = copyScarbContractArtifacts(
+            scarbArtifactDirPath,
+            contractEntry,
+            ourArtifactDirPath,
+            fileName
+        );
+        return { qualified, underscored };
+    });
+}
 
-            // Compile to sierra representation
-            {
-                const executed = await hre.starknetWrapper.compileCairoToSierra({
-                    path: file,
-                    output: outputPath,
-                    binDirPath,
-                    replaceIds: args.replaceIds,
-                    allowedLibfuncsListName: args.allowedLibfuncsListName,
-                    allowedLibfuncsListFile: args.allowedLibfuncsListFile,
-                    singleFile: args.singleFile
-                });
-                statusCode += processExecuted(executed, true);
+/**
+ * Creates the report which collects the sizes of compiled Cairo 1 contracts,
+ * checking them against the limits configured in `starknet.sizeLimits`.
+ */
+function createContractSizeReport(hre: HardhatRuntimeEnvironment) {
+    return new ContractSizeReport(hre.config.paths.starknetArtifacts, {
+        casmBytecodeLength: DEFAULT_MAX_CASM_BYTECODE_LENGTH,
+        ...hre.config.starknet.sizeLimits
+    });
+}
 
-                if (executed.statusCode) {
-                    // continue with compiling to casm only if compiling to sierra succeeded
-                    continue;
-                }
-            }
+/**
+ * Updates whatever is derived from the artifacts, once compilation has written them.
+ */
+async function handleCompiledArtifacts(hre: HardhatRuntimeEnvironment) {
+    await writeArtifactIndex(hre.config.paths.starknetArtifacts);
+    if (hre.config.starknet.typegen?.runOnCompile) {
+        await starknetTypegenAction({}, hre);
+    }
+}
 
-            // Copy abi array from output to abiOutput
-            const abiOutput = path.join(dirPath, `${fileName}${ABI_SUFFIX}`);
-            initializeFile(abiOutput);
+/**
+ * Compiles a Cairo 1 file to sierra and then to casm, storing the artifacts.
+ * @returns the number of failed compilations (0 or 1)
+ */
+async function compileCairo1File(
+    file: string,
+    args: TaskArguments,
+    hre: HardhatRuntimeEnvironment,
+    recompiler: Recompiler,
+    getCompilerSettings: CompilerSettingsResolver,
+    logger: Logger,
+    diagnostics: DiagnosticsReport,
+    sizes: ContractSizeReport
+): Promise<number> {
+    const fileArgs = getFileCompileArgs(args, file, getCompilerSettings, logger);
+    const compilerOptions = {
+        binDirPath: getCompilerBinDir(fileArgs, hre.config.starknet),
+        dockerizedVersion: fileArgs.cairo1DockerizedVersion
+    };
+    const rootRegex = new RegExp("^" + hre.config.paths.root);
+    const artifactsPath = hre.config.paths.starknetArtifacts;
 
-            const outputJson = JSON.parse(fs.readFileSync(outputPath, "utf-8"));
-            fs.writeFileSync(abiOutput, JSON.stringify(outputJson.abi) + "\n");
+    logger.log("Compiling", file);
+
+    const dirSuffix = file.replace(rootRegex, "");
+    const fileName = getFileName(dirSuffix);
+    const dirPath = path.join(artifactsPath, dirSuffix);
+    const outputPath = path.join(dirPath, `${fileName}${CAIRO1_SIERRA_SUFFIX}`);
+
+    fs.mkdirSync(dirPath, { recursive: true });
+    initializeFile(outputPath);
+
+    // Compile to sierra representation
+    {
+        const executed = await hre.starknetWrapper.compileCairoToSierra({
+            path: file,
+            output: outputPath,
+            ...compilerOptions,
+            replaceIds: fileArgs.replaceIds,
+            allowedLibfuncsListName: fileArgs.allowedLibfuncsListName,
+            allowedLibfuncsListFile: fileArgs.allowedLibfuncsListFile,
+            singleFile: fileArgs.singleFile
+        });
+        const statusCode = processExecuted(executed, true, logger);
+        diagnostics.collect(executed, file);
+
+        if (statusCode) {
+            // continue with compiling to casm only if compiling to sierra succeeded
+            return statusCode;
+        }
+    }
 
-            const casmOutput = path.join(dirPath, `${fileName}${CAIRO1_ASSEMBLY_SUFFIX}`);
-            initializeFile(casmOutput);
+    // Copy abi array from output to abiOutput
+    const abiOutput = path.join(dirPath, `${fileName}${ABI_SUFFIX}`);
+    initializeFile(abiOutput);
 
-            // Compile sierra to casm representation
+    const outputJson = JSON.parse(fs.readFileSync(outputPath, "utf-8"));
+    fs.writeFileSync(abiOutput, JSON.stringify(outputJson.abi) + "\n");
+
+    const casmOutput = path.join(dirPath, `${fileName}${CAIRO1_ASSEMBLY_SUFFIX}`);
+    initializeFile(casmOutput);
+
+    // Compile sierra to casm representation
+    const executed = await hre.starknetWrapper.compileSierraToCasm({
+        file: outputPath,
+        output: casmOutput,
+        ...compilerOptions,
+        addPythonicHints: fileArgs.addPythonicHints,
+        allowedLibfuncsListName: fileArgs.allowedLibfuncsListName,
+        allowedLibfuncsListFile: fileArgs.allowedLibfuncsListFile
+    });
+    const statusCode = processExecuted(executed, true, logger);
+    diagnostics.collect(executed, file);
+
+    if (!statusCode) {
+        // Update cache after successful compilation, failed sources are compiled again on recompilation
+        const cacheEntry = await recompiler.updateCache(
+            args,
+            "cairo1",
+            file,
+            outputPath,
+            abiOutput
+        );
+        sizes.add(outputPath, casmOutput);
+        writeArtifactMeta(
+            hre.config.paths.root,
+            outputPath,
+            [outputPath, abiOutput, casmOutput],
+            cacheEntry,
             {
-                const executed = await hre.starknetWrapper.compileSierraToCasm({
-                    file: outputPath,
-                    output: casmOutput,
-                    binDirPath,
-                    addPythonicHints: args.addPythonicHints,
-                    allowedLibfuncsListName: args.allowedLibfuncsListName,
-                    allowedLibfuncsListFile: args.allowedLibfuncsListFile
-                });
-                statusCode += processExecuted(executed, true);
+                source: file,
+                // recorded since it may differ between contracts
+                compiler: await hre.starknetWrapper.describeCairo1Compiler(compilerOptions),
+                options: {
+                    replaceIds: fileArgs.replaceIds,
+                    allowedLibfuncsListName: fileArgs.allowedLibfuncsListName,
+                    allowedLibfuncsListFile: fileArgs.allowedLibfuncsListFile,
+                    addPythonicHints: fileArgs.addPythonicHints,
+                    singleFile: fileArgs.singleFile
+                }
             }
+        );
+    }
+    return statusCode;
+}
 
-            // Update cache after compilation
-            await recompiler.updateCache(args, file, outputPath, abiOutput);
-        }
-        await recompiler.saveCache();
+export async function starknetCompileCairo1Action(
+    args: TaskArguments,
+    hre: HardhatRuntimeEnvironment
+) {
+    const root = hre.config.paths.root;
+    const concurrency = getCompileConcurrency(args, hre.config.starknet);
+
+    const sourcesPaths: string[] = args.paths || hre.config.paths.starknetSources;
+
+    const files: string[] = [];
+    for (let sourcesPath of sourcesPaths) {
+        sourcesPath = adaptPath(root, sourcesPath);
+        checkSourceExists(sourcesPath);
+        files.push(...(await traverseFiles(sourcesPath, "*.cairo")));
     }
 
+    const diagnostics = createDiagnosticsReport(args, hre);
+    const sizes = createContractSizeReport(hre);
+    const recompiler = new Recompiler(hre);
+    const getCompilerSettings = createCompilerSettingsResolver(hre);
+    const statusCodes = await runConcurrently(
+        files.map((file) => async () => {
+            // logs of each contract are printed together once its compilation is done
+            const logger = new BufferedLogger();
+            try {
+                return await compileCairo1File(
+                    file,
+                    args,
+                    hre,
+                    recompiler,
+                    getCompilerSettings,
+                    logger,
+                    diagnostics,
+                    sizes
+                );
+            } finally {
+                logger.flush();
+            }
+        }),
+        concurrency
+    );
+    await recompiler.saveCache();
+    await handleCompiledArtifacts(hre);
+    reportDiagnostics(diagnostics, args, hre);
+    sizes.printSummary();
+
+    const statusCode = statusCodes.reduce((sum, fileStatusCode) => sum + fileStatusCode, 0);
     if (statusCode) {
         const msg = `Failed compilation of ${statusCode} contract${statusCode === 1 ? "" : "s"}.`;
         throw new StarknetPluginError(msg);
     }
 }
 
-export async function starknetDeprecatedCompileAction(
-    args: TaskArguments,
-    hre: HardhatRuntimeEnvironment
-) {
+/**
+ * Collects the locations where imports of Cairo 0 sources are looked for.
+ * @param hre the runtime environment whose paths are used
+ * @param cairoPathArg colon-separated paths as provided via --cairo-path
+ * @returns absolute paths, in the order of precedence
+ */
+export function getCairoPaths(hre: HardhatRuntimeEnvironment, cairoPathArg?: string): string[] {
     const root = hre.config.paths.root;
-    const rootRegex = new RegExp("^" + root);
-
-    const defaultSourcesPath = hre.config.paths.starknetSources;
-    const sourcesPaths: string[] = args.paths || [defaultSourcesPath];
-    const artifactsPath = hre.config.paths.starknetArtifacts;
-
-    const cairoPaths = [defaultSourcesPath, root];
-    if (args.cairoPath) {
-        args.cairoPath.split(":").forEach((path: string) => {
+    const cairoPaths = [...hre.config.paths.starknetSources, root];
+    if (cairoPathArg) {
+        cairoPathArg.split(":").forEach((path: string) => {
             cairoPaths.push(path);
         });
     }
@@ -272,8 +708,23 @@ export async function starknetDeprecatedCompileAction(
             cairoPaths[i] = adaptPath(root, cairoPaths[i]);
         }
     }
+    return cairoPaths;
+}
+
+export async function starknetDeprecatedCompileAction(
+    args: TaskArguments,
+    hre: HardhatRuntimeEnvironment
+) {
+    const root = hre.config.paths.root;
+    const rootRegex = new RegExp("^" + root);
 
+    const sourcesPaths: string[] = args.paths || hre.config.paths.starknetSources;
+    const artifactsPath = hre.config.paths.starknetArtifacts;
+
+    const cairoPaths = getCairoPaths(hre, args.cairoPath);
     const cairoPath = cairoPaths.join(":");
+    const diagnostics = createDiagnosticsReport(args, hre);
+    const getCompilerSettings = createCompilerSettingsResolver(hre);
     let statusCode = 0;
     for (let sourcesPath of sourcesPaths) {
         sourcesPath = adaptPath(root, sourcesPath);
@@ -292,21 +743,44 @@ export async function starknetDeprecatedCompileAction(
             initializeFile(outputPath);
             initializeFile(abiPath);
 
+            const fileArgs = getFileCompileArgs(args, file, getCompilerSettings);
             const executed = await hre.starknetWrapper.deprecatedCompile({
                 file,
                 output: outputPath,
                 abi: abiPath,
                 cairoPath,
-                accountContract: args.accountContract,
-                disableHintValidation: args.disableHintValidation
+                accountContract: fileArgs.accountContract,
+                disableHintValidation: fileArgs.disableHintValidation
             });
 
-            // Update cache after compilation
-            await recompiler.updateCache(args, file, outputPath, abiPath, cairoPath);
-            statusCode += processExecuted(executed, true);
+            const fileStatusCode = processExecuted(executed, true);
+            statusCode += fileStatusCode;
+            diagnostics.collect(executed, file);
+
+            if (!fileStatusCode) {
+                // Update cache after successful compilation, failed sources are compiled again on recompilation
+                const cacheEntry = await recompiler.updateCache(
+                    args,
+                    "cairo0",
+                    file,
+                    outputPath,
+                    abiPath
+                );
+                writeArtifactMeta(root, outputPath, [outputPath, abiPath], cacheEntry, {
+                    source: file,
+                    compiler: { version: readArtifactCompilerVersion(outputPath) },
+                    options: {
+                        cairoPath,
+                        accountContract: fileArgs.accountContract,
+                        disableHintValidation: fileArgs.disableHintValidation
+                    }
+                });
+            }
         }
         await recompiler.saveCache();
     }
+    await handleCompiledArtifacts(hre);
+    reportDiagnostics(diagnostics, args, hre);
 
     if (statusCode) {
         const msg = `Failed compilation of ${statusCode} contract${statusCode === 1 ? "" : "s"}.`;
@@ -318,95 +792,344 @@ export async function starknetBuildAction(args: TaskArguments, hre: HardhatRunti
     const root = hre.config.paths.root;
     const rootRegex = new RegExp("^" + root);
 
-    const defaultSourcesPath = hre.config.paths.starknetSources;
-    const traversablePaths: string[] = args.paths || [defaultSourcesPath];
+    const traversablePaths: string[] = args.paths || hre.config.paths.starknetSources;
     const packageConfigPaths = await findPackageConfigPaths(traversablePaths, root);
 
     const artifactsPath = hre.config.paths.starknetArtifacts;
 
     const scarbWrapper = ScarbWrapper.getInstance(args, hre);
+    const buildOptions = getScarbBuildOptions(args, hre.config.starknet);
+    const recompiler = new Recompiler(hre);
+    const diagnostics = createDiagnosticsReport(args, hre);
+    const sizes = createContractSizeReport(hre);
 
     let statusCode = 0;
     for await (const packageConfigPath of packageConfigPaths) {
         // each config path is assumed to be of format $hardhat_project_root/<CAIRO_DIR>/Scarb.toml
-        let packageConfig = null;
+        let packageNames: string[] = null;
         try {
-            packageConfig = loadScarbTomlFromPath(packageConfigPath, !args.skipValidate);
+            packageNames = getScarbPackageNames(packageConfigPath, !args.skipValidate);
         } catch (error) {
             console.error(error);
             statusCode += 1;
             continue;
         }
-        const packageName = packageConfig.package.name;
 
         // strip "Scarb.toml" from path end to get $hardhat_project_root/<CAIRO_DIR>/
         const packageDir = path.dirname(packageConfigPath);
-        console.log(`Building package ${packageName} from ${packageDir}`);
+        const packagesDescription =
+            packageNames.length === 1
+                ? `package ${packageNames[0]}`
+                : `workspace with packages ${packageNames.join(", ")}`;
+        console.log(`Building ${packagesDescription} from ${packageDir}`);
 
         // not using path.basename(...) because it could be a more complex path than just the directory name
         const dirSuffix = packageDir.replace(rootRegex, ""); // <CAIRO_DIR>/
         const artifactDirPath = path.join(artifactsPath, dirSuffix); // starknet-artifacts/<CAIRO_DIR>/
 
-        const executed = scarbWrapper.build(packageConfigPath, artifactDirPath);
+        const executed = scarbWrapper.build(packageConfigPath, artifactDirPath, buildOptions);
         statusCode += processExecuted(executed, true);
+        diagnostics.collect(executed, packageConfigPath);
         if (executed.statusCode) {
             // continue with compiling to casm only if compiling to sierra succeeded
             continue;
         }
 
-        // by default (dev mode, unlike the release mode), scarb stores artifacts in subdir "dev"
-        const scarbArtifactDirPath = path.join(artifactDirPath, "dev");
+        // scarb stores artifacts in a subdir named after the profile, e.g. "dev" or "release"
+        const scarbArtifactDirPath = path.join(artifactDirPath, buildOptions.profile);
 
-        // load scarb's main build artifact
-        const mainPackageArtifact = loadScarbMainArtifact(scarbArtifactDirPath, packageName);
+        // Update cache after building; the whole package (or workspace) is a single cache entry
+        const cacheEntry = await recompiler.updateCache(
+            args,
+            "scarb",
+            packageConfigPath,
+            getScarbMainArtifactPath(scarbArtifactDirPath, packageNames[0])
+        );
 
-        for (const contractEntry of mainPackageArtifact.contracts) {
-            // package_contract (underscore separation)
-            const fileName = `${contractEntry.package_name}_${contractEntry.contract_name}`;
+        // members of a workspace are built into the same dir
+        for (const packageName of packageNames) {
+            const copiedContracts = copyScarbArtifacts(
+                scarbArtifactDirPath,
+                artifactDirPath,
+                packageName
+            );
+            for (const { qualified, underscored } of copiedContracts) {
+                if (qualified.sierraPath && qualified.casmPath) {
+                    sizes.add(qualified.sierraPath, qualified.casmPath);
+                }
 
-            // artifact dir created by us, not the one created by scarb
-            const ourArtifactDirPath = path.join(artifactDirPath, `${fileName}.cairo`);
-            fs.mkdirSync(ourArtifactDirPath, { recursive: true });
+                for (const copiedPaths of [qualified, underscored]) {
+                    if (!copiedPaths?.sierraPath) {
+                        continue;
+                    }
+                    const { sierraPath, abiPath, casmPath } = copiedPaths;
+                    writeArtifactMeta(
+                        root,
+                        sierraPath,
+                        [sierraPath, abiPath, casmPath].filter(Boolean),
+                        cacheEntry,
+                        {
+                            source: packageConfigPath,
+                            compiler: {
+                                version: readArtifactCompilerVersion(sierraPath, casmPath)
+                            },
+                            options: { features: buildOptions.features, args: buildOptions.args },
+                            scarbProfile: buildOptions.profile
+                        }
+                    );
+                }
+            }
+        }
+    }
+    await recompiler.saveCache();
+    await handleCompiledArtifacts(hre);
+    reportDiagnostics(diagnostics, args, hre);
+    sizes.printSummary();
 
-            // We want to create artifacts compatible with our contract loading mechanisms.
-            // To achieve this, we will now copy scarb artifacts
+    if (statusCode) {
+        const msg = `Failed building of ${statusCode} project${statusCode === 1 ? "" : "s"}.`;
+        throw new StarknetPluginError(msg);
+    }
+}
 
-            // this is false if user skipped validation
-            if (contractEntry.artifacts.sierra) {
-                const scarbSierraPath = path.join(
-                    scarbArtifactDirPath,
-                    contractEntry.artifacts.sierra
-                );
-                const ourSierraPath = path.join(
-                    ourArtifactDirPath,
-                    `${fileName}${CAIRO1_SIERRA_SUFFIX}`
-                );
-                fs.copyFileSync(scarbSierraPath, ourSierraPath);
+/**
+ * Wraps a compilation action so that, if `--watch` is provided, the initial compilation is followed by
+ * recompiling the affected sources on every change, until the process is terminated.
+ * @param action the compilation action to be wrapped
+ * @param sourceType the type of sources compiled by `action`; changed sources of other types are skipped
+ */
+export function withWatchMode(
+    action: (args: TaskArguments, hre: HardhatRuntimeEnvironment) => Promise<void>,
+    sourceType: SourceType
+) {
+    return async (args: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+        if (!args.watch) {
+            return action(args, hre);
+        }
 
-                // Copy abi array from output to abiOutput
-                const abiOutput = path.join(ourArtifactDirPath, `${fileName}${ABI_SUFFIX}`);
-                initializeFile(abiOutput);
+        try {
+            await action(args, hre);
+        } catch (error) {
+            // failing compilation should not stop watching
+            console.error(error);
+        }
 
-                const outputJson = JSON.parse(fs.readFileSync(scarbSierraPath, "utf-8"));
-                fs.writeFileSync(abiOutput, JSON.stringify(outputJson.abi) + "\n");
-            }
+        const root = hre.config.paths.root;
+        const sourcesPaths: string[] = (args.paths || hre.config.paths.starknetSources).map(
+            (sourcesPath: string) => adaptPath(root, sourcesPath)
+        );
+        await watchSources(sourcesPaths, [hre.config.paths.starknetArtifacts], async () => {
+            await new Recompiler(hre).recompileChanged(sourcesPaths, false, args, sourceType);
+        });
+    };
+}
 
-            // this is false if user skipped validation
-            if (contractEntry.artifacts.casm) {
-                const scarbCasmPath = path.join(scarbArtifactDirPath, contractEntry.artifacts.casm);
-                const ourCasmPath = path.join(
-                    ourArtifactDirPath,
-                    `${fileName}${CAIRO1_ASSEMBLY_SUFFIX}`
-                );
-                fs.copyFileSync(scarbCasmPath, ourCasmPath);
-            }
+export async function starknetTypegenAction(args: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const outDir = adaptPath(
+        hre.config.paths.root,
+        args.outDir || hre.config.starknet.typegen?.outDir || DEFAULT_STARKNET_TYPINGS_PATH
+    );
+
+    const generatedPaths = await generateTypings(hre.config.paths.starknetArtifacts, outDir);
+    const count = generatedPaths.length;
+    console.log(`Generated typings of ${count} contract${count === 1 ? "" : "s"} in ${outDir}`);
+}
+
+export async function starknetSizeAction(_args: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const sizes = createContractSizeReport(hre);
+    for (const { sierraPath, casmPath } of await findCairo1Artifacts(
+        hre.config.paths.starknetArtifacts
+    )) {
+        sizes.add(sierraPath, casmPath);
+    }
+
+    if (!sizes.getSizes().length) {
+        console.log("No compiled Cairo 1 contracts found.");
+        return;
+    }
+    sizes.printSummary();
+
+    const oversizedCount = sizes.getOversized().length;
+    if (oversizedCount) {
+        const msg = `${oversizedCount} contract${
+            oversizedCount === 1 ? " exceeds" : "s exceed"
+        } the configured size limits.`;
+        throw new StarknetPluginError(msg);
+    }
+}
+
+export async function starknetArtifactsCheckAction(
+    _args: TaskArguments,
+    hre: HardhatRuntimeEnvironment
+) {
+    const root = hre.config.paths.root;
+    const artifactsPath = hre.config.paths.starknetArtifacts;
+    const abiPaths = fs.existsSync(artifactsPath)
+        ? await traverseFiles(artifactsPath, `*.cairo/*${ABI_SUFFIX}`)
+        : [];
+
+    const recompiler = new Recompiler(hre);
+    let checkedCount = 0;
+    let problematicCount = 0;
+    for (const abiPath of abiPaths) {
+        const artifactDir = path.dirname(abiPath);
+        const relativeArtifactDir = path.relative(artifactsPath, artifactDir);
+        if (relativeArtifactDir.split(path.sep)[0] === INTERNAL_ARTIFACTS_DIR) {
+            // artifacts of accounts used by the plugin itself
+            continue;
+        }
+        checkedCount++;
+
+        const contractName = path.basename(abiPath, ABI_SUFFIX);
+        const meta = loadArtifactMeta(path.join(artifactDir, `${contractName}.json`));
+        let problems: string[];
+        if (!meta) {
+            problems = ["no meta was recorded on compilation"];
+        } else {
+            const source = path.resolve(root, meta.source);
+            const currentHashes = fs.existsSync(source)
+                ? await recompiler.getSourceHashes(
+                      source,
+                      meta.sourceType,
+                      <string>meta.options.cairoPath
+                  )
+                : null;
+            problems = getArtifactProblems(root, artifactDir, meta, currentHashes);
+        }
+
+        if (problems.length) {
+            problematicCount++;
+            console.log(relativeArtifactDir);
+            problems.forEach((problem) => console.log(`    ${problem}`));
         }
     }
 
-    if (statusCode) {
-        const msg = `Failed building of ${statusCode} project${statusCode === 1 ? "" : "s"}.`;
+    if (problematicCount) {
+        const msg =
+            `Stale or inconsistent artifacts of ${problematicCount} out of ${checkedCount} ` +
+            `contract${checkedCount === 1 ? "" : "s"}. Recompile to update them.`;
         throw new StarknetPluginError(msg);
     }
+    console.log(
+        `Artifacts of ${checkedCount} contract${checkedCount === 1 ? "" : "s"} are up to date.`
+    );
+}
+
+/**
+ * A path removed by `starknet-clean`
+ */
+interface CleanTarget {
+    path: string;
+    description: string;
+}
+
+/**
+ * @returns the existing paths of files produced by the plugin, those nested in other targets preceding them
+ */
+function getStarknetCleanTargets(hre: HardhatRuntimeEnvironment): CleanTarget[] {
+    const paths = hre.config.paths;
+    const targets: CleanTarget[] = [];
+
+    // read directly, since loading the cache through Recompiler creates it if missing
+    const cacheFilePath = path.join(paths.cache, CACHE_FILE_NAME);
+    if (fs.existsSync(cacheFilePath)) {
+        const cache: Record<string, ContractData> = JSON.parse(
+            fs.readFileSync(cacheFilePath, "utf-8") || "{}"
+        );
+        for (const [cachedPath, entry] of Object.entries(cache)) {
+            if (entry.sourceType === "scarb") {
+                const packageDir = path.dirname(cachedPath);
+                targets.push({
+                    path: getArtifactPath(packageDir, paths),
+                    description: `Scarb target directory of ${path.relative(
+                        paths.root,
+                        packageDir
+                    )}`
+                });
+            }
+        }
+    }
+
+    targets.push(
+        {
+            path: path.join(paths.starknetArtifacts, INTERNAL_ARTIFACTS_DIR),
+            description: "artifacts of accounts used by the plugin"
+        },
+        { path: paths.starknetArtifacts, description: "Starknet artifacts" },
+        { path: cacheFilePath, description: "recompilation cache" }
+    );
+    return targets.filter((target) => fs.existsSync(target.path));
+}
+
+/**
+ * Removes the files produced by compiling and building Starknet contracts.
+ * If `args.dryRun`, only lists what would be removed.
+ */
+export async function starknetCleanAction(args: TaskArguments, hre: HardhatRuntimeEnvironment) {
+    const root = hre.config.paths.root;
+    const targets = getStarknetCleanTargets(hre);
+    if (!targets.length) {
+        console.log("No Starknet artifacts to remove.");
+        return;
+    }
+
+    console.log(args.dryRun ? "Would remove:" : "Removing:");
+    for (const target of targets) {
+        console.log(`    ${path.relative(root, target.path)} (${target.description})`);
+        if (!args.dryRun) {
+            fs.rmSync(target.path, { recursive: true, force: true });
+        }
+    }
+}
+
+/**
+ * Overrides Hardhat's `clean` so that it also removes what `starknet-clean` does.
+ * Since Hardhat's own cleaning can't be dry-run, with `args.dryRun` it's only described.
+ */
+export async function starknetCleanOverrideAction(
+    args: TaskArguments,
+    hre: HardhatRuntimeEnvironment,
+    runSuper: RunSuperFunction<TaskArguments>
+) {
+    if (args.global) {
+        return runSuper(args);
+    }
+
+    await starknetCleanAction(args, hre);
+    if (args.dryRun) {
+        const root = hre.config.paths.root;
+        console.log(
+            `Hardhat would empty ${path.relative(root, hre.config.paths.cache)} ` +
+                `and remove ${path.relative(root, hre.config.paths.artifacts)}`
+        );
+        return;
+    }
+    await runSuper(args);
+}
+
+/**
+ * Run by Hardhat's `compile` if `starknet.compileWithHardhat` is set.
+ * Compiles each changed source with the task matching its source type, as done on recompilation.
+ */
+export async function starknetHardhatCompileAction(
+    args: TaskArguments,
+    hre: HardhatRuntimeEnvironment
+) {
+    const recompiled = await new Recompiler(hre).recompileChanged(undefined, args.force);
+    if (args.quiet) {
+        return;
+    }
+
+    if (!recompiled.length) {
+        console.log("No Starknet sources need compiling.");
+        return;
+    }
+    console.log(
+        `Compiled ${recompiled.length} Starknet source${recompiled.length === 1 ? "" : "s"}:`
+    );
+    for (const source of recompiled) {
+        console.log(`    ${path.relative(hre.config.paths.root, source)}`);
+    }
 }
 
 export async function amarnaAction(args: TaskArguments, hre: HardhatRuntimeEnvironment) {
@@ -496,12 +1219,12 @@ async function handleContractVerification(
         paths.push(...args.paths);
     }
 
-    const sourceRegex = new RegExp("^" + hre.config.paths.starknetSources + "/");
-    const contractNameDefault = mainPath.replace(sourceRegex, "");
+    const sourcesRoots = hre.config.paths.starknetSources;
+    const contractNameDefault = getPathInSourcesRoot(mainPath, sourcesRoots);
     // If contract name is not provided, use the default
     bodyFormData.append("contract-name", contractNameDefault);
     // Appends all contracts to the form data with the name "file" + index
-    handleMultiPartContractVerification(bodyFormData, paths, hre.config.paths.root, sourceRegex);
+    handleMultiPartContractVerification(bodyFormData, paths, hre.config.paths.root, sourcesRoots);
 
     await axios
         .post(voyagerUrl, bodyFormData.getBuffer(), {
@@ -532,7 +1255,7 @@ function handleMultiPartContractVerification(
     bodyFormData: FormData,
     paths: string[],
     root: string,
-    sourceRegex: RegExp
+    sourcesRoots: string[]
 ) {
     paths.forEach(function (item: string, index: number) {
         if (!path.isAbsolute(item)) {
@@ -542,7 +1265,7 @@ function handleMultiPartContractVerification(
             }
         }
         bodyFormData.append("file" + index, fs.readFileSync(paths[index]), {
-            filepath: paths[index].replace(sourceRegex, ""),
+            filepath: getPathInSourcesRoot(paths[index], sourcesRoots),
             contentType: "application/octet-stream"
         });
     });
@@ -602,6 +1325,21 @@ export async function starknetTestAction(
 
     await runWithDevnet(hre, async () => {
         await runSuper(args);
+
+        if (args.watch) {
+            const recompiler = new Recompiler(hre);
+            const sourcesPaths = [
+                ...hre.config.paths.starknetSources,
+                ...(await recompiler.getScarbPackageDirs())
+            ];
+            await watchSources(sourcesPaths, [hre.config.paths.starknetArtifacts], async () => {
+                const recompiled = await new Recompiler(hre).recompileChanged();
+                if (recompiled.length) {
+                    // rerun the tests only if there are new artifacts
+                    await runSuper(args);
+                }
+            });
+        }
     });
 }
 
@@ -632,8 +1370,7 @@ export async function starknetMigrateAction(args: TaskArguments, hre: HardhatRun
     }
 
     const root = hre.config.paths.root;
-    const defaultSourcesPath = hre.config.paths.starknetSources;
-    const files: string[] = args.paths || [defaultSourcesPath];
+    const files: string[] = args.paths;
     const cairoFiles: string[] = [];
     for (let file of files) {
         file = adaptPath(root, file);
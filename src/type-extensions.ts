@@ -3,6 +3,7 @@ import "hardhat/types/runtime";
 import { GetBlockResponse } from "starknet";
 
 import { Account } from "./account";
+import { TypeCodec } from "./codecs";
 import { StarknetChainId } from "./constants";
 import { AmarnaDocker } from "./external-server/docker-amarna";
 import { Transaction, TransactionReceipt, TransactionTrace } from "./starknet-types";
@@ -15,13 +16,15 @@ import * as StarknetTypes from "./types/starknet";
 declare module "hardhat/types/config" {
     export interface ProjectPathsUserConfig {
         starknetArtifacts?: string;
-        starknetSources?: string;
+        // a root of Starknet sources or an array of them, each possibly a glob pattern
+        starknetSources?: string | string[];
         cairoPaths?: string[];
     }
 
     export interface ProjectPathsConfig {
         starknetArtifacts: string;
-        starknetSources?: string;
+        // absolute paths of the roots of Starknet sources
+        starknetSources?: string[];
         cairoPaths?: string[];
     }
 
@@ -83,6 +86,7 @@ type TransactionReceiptType = TransactionReceipt;
 type TransactionTraceType = TransactionTrace;
 type TransactionType = Transaction;
 type BlockType = GetBlockResponse;
+type TypeCodecType<T = unknown> = TypeCodec<T>;
 
 declare module "hardhat/types/runtime" {
     export interface Devnet extends DevnetTypes.Devnet {}
@@ -101,4 +105,5 @@ declare module "hardhat/types/runtime" {
     type TransactionReceipt = TransactionReceiptType;
     type TransactionTrace = TransactionTraceType;
     type Block = BlockType;
+    type TypeCodec<T = unknown> = TypeCodecType<T>;
 }
@@ -0,0 +1,336 @@
+import fs from "fs";
+import path from "path";
+
+import {
+    COMMON_NUMERIC_TYPES,
+    extractMemberTypes,
+    getArrayElementType,
+    getEnum,
+    getNonZeroValueType,
+    isArray,
+    isArrayDeprecated,
+    isBool,
+    isByteArray,
+    isNamedTuple,
+    isNonZero,
+    isTuple,
+    isU256,
+    isU512,
+    parseNamedTuple,
+    UNIT_TYPE
+} from "./adapt";
+import {
+    ABI_SUFFIX,
+    CAIRO1_ASSEMBLY_SUFFIX,
+    INTERNAL_ARTIFACTS_DIR,
+    LEN_SUFFIX_DEPRECATED
+} from "./constants";
+import * as starknet from "./starknet-types";
+import { listFunctions, loadAbi } from "./types";
+import { traverseFiles } from "./utils";
+
+const PLUGIN_PACKAGE_NAME = "@shardlabs/starknet-hardhat-plugin";
+const GENERATED_FILE_HEADER = `// Generated by ${PLUGIN_PACKAGE_NAME} (starknet-typegen); do not edit manually.`;
+const INDENT = "    ";
+
+// Values are adapted differently depending on whether they are passed to or returned from a contract
+type Direction = "input" | "output";
+
+function toPascalCase(name: string): string {
+    const pascalCase = name
+        .split(/[^A-Za-z0-9]+/)
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join("");
+    return /^[0-9]/.test(pascalCase) ? `_${pascalCase}` : pascalCase;
+}
+
+function toPropertyName(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Renders an object type with the given members.
+ * @param members pairs of member names and types
+ * @param indent if provided, members are rendered on separate lines, indented relative to it
+ */
+function renderObject(members: [string, string][], indent?: string): string {
+    if (!members.length) {
+        return "Record<string, never>";
+    }
+
+    if (indent === undefined) {
+        const renderedMembers = members.map(([name, type]) => `${toPropertyName(name)}: ${type}`);
+        return `{ ${renderedMembers.join("; ")} }`;
+    }
+
+    const memberIndent = indent + INDENT;
+    const renderedMembers = members.map(
+        ([name, type]) => `${memberIndent}${toPropertyName(name)}: ${type};\n`
+    );
+    return `{\n${renderedMembers.join("")}${indent}}`;
+}
+
+/**
+ * Cairo 0 functions take array lengths as separate arguments, which are not provided by the user,
+ * but are calculated from the array argument that follows.
+ */
+function isDeprecatedArrayLength(args: starknet.Argument[], index: number): boolean {
+    const arg = args[index];
+    const nextArg = args[index + 1];
+    return (
+        arg.name.endsWith(LEN_SUFFIX_DEPRECATED) &&
+        nextArg?.name === arg.name.slice(0, -LEN_SUFFIX_DEPRECATED.length) &&
+        isArrayDeprecated(nextArg.type)
+    );
+}
+
+/**
+ * Renders the TypeScript counterparts of the Cairo types of a single ABI,
+ * following the conversions done by `adaptInputUtil` and `adaptOutputUtil`.
+ */
+class TypingsRenderer {
+    // struct and enum declarations, in the order of rendering
+    private declarations: string[] = [];
+    // TypeScript names of rendered structs and enums, by direction and Cairo type
+    private declaredNames: Map<string, string> = new Map();
+    private usedNames: Set<string>;
+
+    constructor(private abi: starknet.Abi, reservedNames: string[]) {
+        this.usedNames = new Set(reservedNames);
+    }
+
+    getDeclarations(): string[] {
+        return this.declarations;
+    }
+
+    renderType(type: string, direction: Direction): string {
+        if (COMMON_NUMERIC_TYPES.includes(type)) {
+            return direction === "input" ? "Numeric | string" : "bigint";
+        }
+
+        if (isBool(type)) {
+            return direction === "input" ? "boolean | number" : "boolean";
+        }
+
+        if (isU256(type) || isU512(type)) {
+            return direction === "input" ? "Numeric" : "bigint";
+        }
+
+        if (isByteArray(type)) {
+            return "string";
+        }
+
+        if (isNonZero(type)) {
+            return this.renderType(getNonZeroValueType(type), direction);
+        }
+
+        if (isArrayDeprecated(type)) {
+            return `Array<${this.renderType(type.slice(0, -1), direction)}>`;
+        }
+
+        if (isArray(type)) {
+            return `Array<${this.renderType(getArrayElementType(type), direction)}>`;
+        }
+
+        if (isTuple(type)) {
+            const content = type.slice(1, -1);
+            if (!content) {
+                return "[]";
+            }
+
+            const memberTypes = extractMemberTypes(content);
+            if (isNamedTuple(type)) {
+                const members = memberTypes.map(parseNamedTuple);
+                return renderObject(
+                    members.map((member) => [member.name, this.renderType(member.type, direction)])
+                );
+            }
+
+            return `[${memberTypes
+                .map((member) => this.renderType(member, direction))
+                .join(", ")}]`;
+        }
+
+        if (isNamedTuple(type)) {
+            return this.renderType(parseNamedTuple(type).type, direction);
+        }
+
+        const abiEntry = this.abi[type];
+        if (abiEntry?.type === "struct") {
+            return this.renderStruct(<starknet.Struct>abiEntry, direction);
+        }
+
+        const enumSpec = getEnum(type, this.abi);
+        if (enumSpec) {
+            return this.renderEnum(enumSpec, direction);
+        }
+
+        // not supported by the adaptation either, so the shape is not known
+        return "unknown";
+    }
+
+    /**
+     * Declares a type named after the Cairo type `cairoName`, unless already declared.
+     * @param renderBody renders the declared type; may refer to the declared name, in case the type is recursive
+     * @returns the declared name
+     */
+    private declare(cairoName: string, direction: Direction, renderBody: () => string): string {
+        const key = `${direction} ${cairoName}`;
+        const renderedName = this.declaredNames.get(key);
+        if (renderedName) {
+            return renderedName;
+        }
+
+        // e.g. `contracts::Pair` becomes `PairInput` when passed and `Pair` when returned;
+        // generic arguments are not part of the name, e.g. `core::option::Option::<u8>` becomes `Option`
+        const genericlessName = cairoName.replace(/::<.*$/, "");
+        const baseName =
+            toPascalCase(genericlessName.split("::").pop()) +
+            (direction === "input" ? "Input" : "");
+        let name = baseName;
+        for (let i = 2; this.usedNames.has(name); ++i) {
+            name = `${baseName}${i}`;
+        }
+        this.usedNames.add(name);
+        // registered before rendering the body, in case the type is recursive
+        this.declaredNames.set(key, name);
+
+        this.declarations.push(`export type ${name} = ${renderBody()};`);
+        return name;
+    }
+
+    private renderStruct(struct: starknet.Struct, direction: Direction): string {
+        return this.declare(struct.name, direction, () => {
+            const members = struct.members.map(
+                (member) =>
+                    [member.name, this.renderType(member.type, direction)] as [string, string]
+            );
+            return renderObject(members, "");
+        });
+    }
+
+    // a union of `{ variant, value }` objects, without the value for variants of the unit type
+    private renderEnum(enumSpec: starknet.Enum, direction: Direction): string {
+        return this.declare(enumSpec.name, direction, () => {
+            const variants = enumSpec.variants.map((variant) => {
+                const members: [string, string][] = [["variant", JSON.stringify(variant.name)]];
+                if (variant.type !== UNIT_TYPE) {
+                    members.push(["value", this.renderType(variant.type, direction)]);
+                }
+                return renderObject(members);
+            });
+            return variants.join(" | ");
+        });
+    }
+
+    renderFunction(func: starknet.CairoFunction, isCairo1: boolean, indent: string): string {
+        const inputs = func.inputs
+            .filter((_input, i) => isCairo1 || !isDeprecatedArrayLength(func.inputs, i))
+            .map((input) => [input.name, this.renderType(input.type, "input")] as [string, string]);
+
+        // a single unnamed output is returned as it is
+        const outputs =
+            func.outputs.length === 1 && !func.outputs[0].name
+                ? this.renderType(func.outputs[0].type, "output")
+                : renderObject(
+                      func.outputs.map((output) => [
+                          output.name,
+                          this.renderType(output.type, "output")
+                      ]),
+                      indent + INDENT
+                  );
+
+        return renderObject(
+            [
+                ["inputs", renderObject(inputs, indent + INDENT)],
+                ["outputs", outputs]
+            ],
+            indent
+        );
+    }
+}
+
+/**
+ * Generates the content of a TypeScript module declaring the types of the contract whose ABI is provided.
+ * @param contractName the name of the contract, used as the base of the declared type names
+ * @param abi the contract ABI
+ * @param isCairo1 whether the contract is written in Cairo 1
+ * @param sourceDescription where the ABI comes from, mentioned in the generated module
+ */
+export function renderContractTypings(
+    contractName: string,
+    abi: starknet.Abi,
+    isCairo1: boolean,
+    sourceDescription: string
+): string {
+    const typeName = toPascalCase(contractName);
+    const functionsTypeName = `${typeName}Functions`;
+    const factoryTypeName = `${typeName}Factory`;
+    const renderer = new TypingsRenderer(abi, [typeName, functionsTypeName, factoryTypeName]);
+
+    const functions = listFunctions(abi)
+        .filter(([, func]) => func.type === "function")
+        .map(([name, func]) => [name, renderer.renderFunction(func, isCairo1, INDENT)]);
+    const functionsType = renderObject(<[string, string][]>functions, "");
+
+    const body = [
+        ...renderer.getDeclarations(),
+        `export type ${functionsTypeName} = ${functionsType};`,
+        `export type ${typeName} = StarknetContract<${functionsTypeName}>;`,
+        `export type ${factoryTypeName} = StarknetContractFactory<${functionsTypeName}>;`
+    ].join("\n\n");
+
+    const imports = ["StarknetContract", "StarknetContractFactory"];
+    if (/\bNumeric\b/.test(body)) {
+        imports.unshift("Numeric");
+    }
+
+    return [
+        GENERATED_FILE_HEADER,
+        `// Source: ${sourceDescription}`,
+        `import type { ${imports.join(", ")} } from "${PLUGIN_PACKAGE_NAME}";`,
+        "",
+        body,
+        ""
+    ].join("\n");
+}
+
+/**
+ * Generates TypeScript typings for every contract ABI in `artifactsPath`.
+ * The typings of `<artifactsPath>/<CONTRACT_PATH>.cairo/<CONTRACT_NAME>_abi.json`
+ * are written to `<outDir>/<CONTRACT_PATH>.ts`.
+ * @param artifactsPath the directory containing compilation artifacts
+ * @param outDir the directory to which the typings are written
+ * @returns the paths of the generated files
+ */
+export async function generateTypings(artifactsPath: string, outDir: string): Promise<string[]> {
+    if (!fs.existsSync(artifactsPath)) {
+        return [];
+    }
+
+    const generatedPaths: string[] = [];
+    for (const abiPath of await traverseFiles(artifactsPath, `*.cairo/*${ABI_SUFFIX}`)) {
+        const artifactDir = path.dirname(abiPath);
+        const relativeArtifactDir = path.relative(artifactsPath, artifactDir);
+        if (relativeArtifactDir.split(path.sep)[0] === INTERNAL_ARTIFACTS_DIR) {
+            // artifacts of accounts used by the plugin itself
+            continue;
+        }
+
+        const contractName = path.basename(abiPath, ABI_SUFFIX);
+        const casmPath = path.join(artifactDir, `${contractName}${CAIRO1_ASSEMBLY_SUFFIX}`);
+        const typings = renderContractTypings(
+            contractName,
+            loadAbi(abiPath).abi,
+            fs.existsSync(casmPath),
+            path.relative(artifactsPath, abiPath)
+        );
+
+        const outputPath = path.join(outDir, relativeArtifactDir.replace(/\.cairo$/, ".ts"));
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, typings);
+        generatedPaths.push(outputPath);
+    }
+
+    return generatedPaths;
+}
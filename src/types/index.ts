@@ -2,7 +2,9 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 import fs from "node:fs";
 import { CallData, SequencerProvider, events as eventUtil, hash, json, selector } from "starknet";
 
-import { adaptInputUtil, adaptOutputUtil, formatFelt } from "../adapt";
+import { adaptInputUtil, adaptOutputUtil, formatFelt, requiresAdaptation } from "../adapt";
+import { storeClassHash } from "../artifact-index";
+import { ArtifactMeta, loadArtifactMeta } from "../artifact-meta";
 import {
     CHECK_STATUS_RECOVER_TIMEOUT,
     QUERY_VERSION,
@@ -46,10 +48,23 @@ export type TxStatus =
 
 export type InvokeResponse = string;
 
+/**
+ * Types of the arguments (`inputs`) and results (`outputs`) of contract functions, by function name.
+ * Generated for compiled contracts by `hardhat starknet-typegen`.
+ */
+export type ContractFunctionTypes = Record<string, { inputs: StringMap; outputs: unknown }>;
+
+/**
+ * Function types of a contract whose ABI is not known at compile time.
+ */
+export type UntypedContractFunctions = Record<string, { inputs: StringMap; outputs: StringMap }>;
+
 export type StarknetContractFactoryConfig = {
     abiPath: string;
     casmPath?: string;
     metadataPath: string;
+    // if known in advance, e.g. from the artifact index
+    classHash?: string;
     hre: HardhatRuntimeEnvironment;
 };
 
@@ -76,6 +91,17 @@ export interface DecodedEvent {
     data: StringMap;
 }
 
+/**
+ * Invocation of a contract function from a transaction trace, with its arguments, result and events decoded.
+ */
+export interface DecodedInvocation {
+    name: string;
+    args: StringMap;
+    /** in the same form as returned by `call` */
+    result: unknown;
+    events: DecodedEvent[];
+}
+
 /**
  * Enumerates the ways of interacting with a contract.
  */
@@ -226,23 +252,193 @@ function mapAbi(rawAbi: string): starknet.Abi {
     return abi;
 }
 
+// ABIs parsed in this process, by path; parsed again if the file was modified
+const abiCache: Map<string, { mtimeMs: number; abiRaw: string; abi: starknet.Abi }> = new Map();
+
+/**
+ * Reads and parses the ABI from `abiPath`, reusing the result of previous calls if the file is unchanged.
+ * The returned ABI is shared, so it should not be modified.
+ */
+export function loadAbi(abiPath: string): { abiRaw: string; abi: starknet.Abi } {
+    const { mtimeMs } = fs.statSync(abiPath);
+    const cached = abiCache.get(abiPath);
+    if (cached?.mtimeMs === mtimeMs) {
+        return cached;
+    }
+
+    const abiRaw = readAbi(abiPath);
+    const loaded = { mtimeMs, abiRaw, abi: mapAbi(abiRaw) };
+    abiCache.set(abiPath, loaded);
+    return loaded;
+}
+
+const FUNCTION_ENTRY_TYPES = ["function", "l1_handler", "constructor"];
+
+function isFunctionEntry(abiEntry: starknet.AbiEntry): abiEntry is starknet.CairoFunction {
+    return FUNCTION_ENTRY_TYPES.includes(abiEntry.type);
+}
+
+/**
+ * Counts the functions of each name, including those of interfaces.
+ */
+function countFunctionNames(
+    abiArray: starknet.AbiEntry[],
+    counts: Map<string, number> = new Map()
+): Map<string, number> {
+    for (const abiEntry of abiArray) {
+        if ("items" in abiEntry) {
+            countFunctionNames(abiEntry.items, counts);
+        } else if (isFunctionEntry(abiEntry)) {
+            counts.set(abiEntry.name, (counts.get(abiEntry.name) || 0) + 1);
+        }
+    }
+    return counts;
+}
+
 /**
  * Recursively extract abi entries and populate the provided `abi` object.
+ * Interfaces are kept along with their items, which are extracted as well,
+ * except for functions whose name is shared by another function, which are only kept in their interface.
+ * @param functionNameCounts the number of functions of each name in the whole ABI
+ * @param isInterface whether `abiArray` are the items of an interface
  */
-function extractAbiEntries(abiArray: starknet.AbiEntry[], abi: starknet.Abi) {
+function extractAbiEntries(
+    abiArray: starknet.AbiEntry[],
+    abi: starknet.Abi,
+    functionNameCounts = countFunctionNames(abiArray),
+    isInterface = false
+) {
     for (const abiEntry of abiArray) {
+        if (!abiEntry.name) {
+            const msg = `Abi entry has no name: ${abiEntry}`;
+            throw new StarknetPluginError(msg);
+        }
+
         if ("items" in abiEntry) {
-            extractAbiEntries(abiEntry.items, abi);
+            abi[abiEntry.name] = abiEntry;
+            extractAbiEntries(abiEntry.items, abi, functionNameCounts, true);
+        } else if (
+            isInterface &&
+            isFunctionEntry(abiEntry) &&
+            functionNameCounts.get(abiEntry.name) > 1
+        ) {
+            continue;
         } else {
-            if (!abiEntry.name) {
-                const msg = `Abi entry has no name: ${abiEntry}`;
-                throw new StarknetPluginError(msg);
-            }
             abi[abiEntry.name] = abiEntry;
         }
     }
 }
 
+/**
+ * Collects the functions of `abi`, each with the path of its interface, if it belongs to one.
+ */
+function collectFunctions(abi: starknet.Abi) {
+    const interfaceFunctions: Set<starknet.AbiEntry> = new Set();
+    const functions: { interfaceName?: string; func: starknet.CairoFunction }[] = [];
+    for (const abiEntry of Object.values(abi)) {
+        if (abiEntry.type === "interface" && "items" in abiEntry) {
+            for (const item of abiEntry.items.filter(isFunctionEntry)) {
+                interfaceFunctions.add(item);
+                functions.push({ interfaceName: abiEntry.name, func: item });
+            }
+        }
+    }
+
+    for (const abiEntry of Object.values(abi)) {
+        if (isFunctionEntry(abiEntry) && !interfaceFunctions.has(abiEntry)) {
+            functions.push({ func: abiEntry });
+        }
+    }
+    return functions;
+}
+
+function qualifyFunctionName(interfaceName: string | undefined, func: starknet.CairoFunction) {
+    return interfaceName ? `${interfaceName}::${func.name}` : func.name;
+}
+
+/**
+ * Lists the functions of `abi`, each with the name it's accessible by:
+ * its own name, or the name qualified with the path of its interface if its own name is ambiguous.
+ * Functions outside of interfaces with an ambiguous name are not listed, since they have no qualified name.
+ */
+export function listFunctions(abi: starknet.Abi): [string, starknet.CairoFunction][] {
+    const functions = collectFunctions(abi);
+    const nameCounts: Map<string, number> = new Map();
+    for (const { func } of functions) {
+        nameCounts.set(func.name, (nameCounts.get(func.name) || 0) + 1);
+    }
+
+    const listed: [string, starknet.CairoFunction][] = [];
+    for (const { interfaceName, func } of functions) {
+        if (nameCounts.get(func.name) === 1) {
+            listed.push([func.name, func]);
+        } else if (interfaceName) {
+            listed.push([qualifyFunctionName(interfaceName, func), func]);
+        }
+    }
+    return listed;
+}
+
+/**
+ * Checks if the function of interface `interfaceName` is referred to with `qualifier`, which is either
+ * the path of the interface, a suffix of the path, or the name of an impl of the interface.
+ */
+function matchesQualifier(abi: starknet.Abi, interfaceName: string, qualifier: string): boolean {
+    const impl = abi[qualifier];
+    return (
+        interfaceName === qualifier ||
+        interfaceName.endsWith(`::${qualifier}`) ||
+        (impl?.type === "impl" && "interface_name" in impl && impl.interface_name === interfaceName)
+    );
+}
+
+/**
+ * Finds the function of `abi` referred to by `functionName`, which is either:
+ * - the name of the function, e.g. `balance_of`
+ * - the name qualified with the path of the interface of the function or its suffix, e.g. `IERC20::balance_of`
+ * - the name qualified with the name of an impl of the interface, e.g. `ERC20Impl::balance_of`
+ * - the selector of the function, as a hex string
+ * @param entryTypes if provided, only functions of these types are looked for, e.g. `["l1_handler"]`
+ * @returns the function, or `undefined` if there is no such function
+ * @throws if `functionName` refers to multiple functions, e.g. by a name or a selector they share
+ */
+export function findFunction(
+    abi: starknet.Abi,
+    functionName: string,
+    entryTypes: string[] = FUNCTION_ENTRY_TYPES
+): starknet.CairoFunction | undefined {
+    let matches = collectFunctions(abi).filter(({ func }) => entryTypes.includes(func.type));
+    if (HEXADECIMAL_REGEX.test(functionName)) {
+        const functionSelector = BigInt(functionName);
+        matches = matches.filter(
+            ({ func }) => BigInt(selector.getSelectorFromName(func.name)) === functionSelector
+        );
+    } else {
+        const separatorIndex = functionName.lastIndexOf("::");
+        const qualifier = separatorIndex === -1 ? null : functionName.slice(0, separatorIndex);
+        const name = separatorIndex === -1 ? functionName : functionName.slice(separatorIndex + 2);
+        matches = matches.filter(
+            ({ interfaceName, func }) =>
+                func.name === name &&
+                (qualifier === null ||
+                    (interfaceName && matchesQualifier(abi, interfaceName, qualifier)))
+        );
+    }
+
+    if (matches.length > 1) {
+        const names = matches
+            .map(({ interfaceName, func }) => qualifyFunctionName(interfaceName, func))
+            .join(", ");
+        let msg = `Function '${functionName}' is ambiguous; it matches: ${names}.`;
+        if (matches.every(({ interfaceName }) => interfaceName)) {
+            // functions outside of interfaces have no other name
+            msg += " Use one of these names instead.";
+        }
+        throw new StarknetPluginError(msg);
+    }
+    return matches[0]?.func;
+}
+
 /**
  * Add `signature` elements to to `starknetArgs`, if there are any.
  * @param signature array of transaction signature elements
@@ -372,7 +568,7 @@ export type SierraContractEntryPointFields = {
 
 export type NonceQueryOptions = BlockIdentifier;
 
-export class StarknetContractFactory {
+export class StarknetContractFactory<F extends ContractFunctionTypes = UntypedContractFunctions> {
     private hre: HardhatRuntimeEnvironment;
     public abi: starknet.Abi;
     public abiPath: string;
@@ -385,10 +581,10 @@ export class StarknetContractFactory {
     constructor(config: StarknetContractFactoryConfig) {
         this.hre = config.hre;
         this.abiPath = config.abiPath;
-        this.abiRaw = readAbi(this.abiPath);
-        this.abi = mapAbi(this.abiRaw);
+        ({ abiRaw: this.abiRaw, abi: this.abi } = loadAbi(this.abiPath));
         this.metadataPath = config.metadataPath;
         this.casmPath = config.casmPath;
+        this.classHash = config.classHash;
 
         const constructorPredicate = this.resolveConstructorPredicate();
         this.constructorAbi = findConstructor(this.abi, constructorPredicate);
@@ -474,7 +670,8 @@ export class StarknetContractFactory {
             constructorArguments,
             this.constructorAbi.inputs,
             this.abi,
-            this.isCairo1()
+            this.isCairo1(),
+            this.hre.starknet.codecs
         );
     }
 
@@ -484,7 +681,7 @@ export class StarknetContractFactory {
      * @param address the address of a previously deployed contract
      * @returns the contract instance at the provided address
      */
-    getContractAt(address: string) {
+    getContractAt(address: string): StarknetContract<F> {
         if (!address) {
             throw new StarknetPluginError("No address provided");
         }
@@ -493,7 +690,7 @@ export class StarknetContractFactory {
                 `Address must be 0x-prefixed hex string. Got: "${address}".`
             );
         }
-        const contract = new StarknetContract({
+        const contract = new StarknetContract<F>({
             abiPath: this.abiPath,
             hre: this.hre,
             isCairo1: this.isCairo1()
@@ -510,15 +707,31 @@ export class StarknetContractFactory {
         return !!this.casmPath;
     }
 
+    /**
+     * Returns the record of how the artifacts of the contract were produced: the compiler, the compile options,
+     * the hash of the source etc.
+     * @returns the meta, or `undefined` if the contract was compiled without recording it
+     */
+    getArtifactMeta(): ArtifactMeta | undefined {
+        return this.metadataPath && loadArtifactMeta(this.metadataPath);
+    }
+
     async getClassHash() {
-        const method = this.isCairo1() ? "getSierraContractClassHash" : "getClassHash";
-        this.classHash =
-            this.classHash ?? (await this.hre.starknetWrapper[method](this.metadataPath));
+        if (!this.classHash) {
+            const method = this.isCairo1() ? "getSierraContractClassHash" : "getClassHash";
+            this.classHash = await this.hre.starknetWrapper[method](this.metadataPath);
+            // spare the computation to later runs
+            storeClassHash(
+                this.hre.config.paths.starknetArtifacts,
+                this.metadataPath,
+                this.classHash
+            );
+        }
         return this.classHash;
     }
 }
 
-export class StarknetContract {
+export class StarknetContract<F extends ContractFunctionTypes = UntypedContractFunctions> {
     private hre: HardhatRuntimeEnvironment;
     protected abi: starknet.Abi;
     protected abiPath: string;
@@ -531,8 +744,7 @@ export class StarknetContract {
     constructor(config: StarknetContractConfig) {
         this.hre = config.hre;
         this.abiPath = config.abiPath;
-        this.abiRaw = readAbi(this.abiPath);
-        this.abi = mapAbi(this.abiRaw);
+        ({ abiRaw: this.abiRaw, abi: this.abi } = loadAbi(this.abiPath));
         this.isCairo1 = config.isCairo1;
         this.eventsSpecifications = extractEventSpecifications(this.abi);
     }
@@ -567,9 +779,9 @@ export class StarknetContract {
      * @options optional additions to invoking
      * @returns a Promise that resolves when the status of the transaction is at least `PENDING`
      */
-    async invoke(
-        functionName: string,
-        args?: StringMap,
+    async invoke<N extends keyof F & string>(
+        functionName: N,
+        args?: F[N]["inputs"],
         options: InvokeOptions = {}
     ): Promise<InvokeResponse> {
         try {
@@ -580,7 +792,7 @@ export class StarknetContract {
             const { transaction_hash: txHash } = await this.provider.invokeFunction(
                 {
                     contractAddress: this.address,
-                    entrypoint: functionName,
+                    entrypoint: this.getEntrypointName(functionName),
                     calldata: adaptedInput,
                     signature: options.signature.map(String)
                 },
@@ -635,11 +847,11 @@ export class StarknetContract {
      * @param options optional additions to calling
      * @returns a Promise that resolves when the status of the transaction is at least `PENDING`
      */
-    async call(
-        functionName: string,
-        args?: StringMap,
+    async call<N extends keyof F & string>(
+        functionName: N,
+        args?: F[N]["inputs"],
         options: CallOptions = {}
-    ): Promise<StringMap> {
+    ): Promise<F[N]["outputs"]> {
         try {
             const adaptedOptions = defaultToPendingBlock(options);
             const adaptedInput = adaptedOptions.rawInput
@@ -649,7 +861,7 @@ export class StarknetContract {
             const { result } = await this.provider.callContract(
                 {
                     contractAddress: this.address,
-                    entrypoint: functionName,
+                    entrypoint: this.getEntrypointName(functionName),
                     calldata: adaptedInput
                 },
                 adaptedOptions.blockNumber
@@ -675,19 +887,19 @@ export class StarknetContract {
      * @returns Fee estimation
      */
     async estimateMessageFee(functionName: string, args: StringMap) {
-        // Check if functionName is annotated with @l1_handler
-        const func = <starknet.CairoFunction>this.abi[functionName];
+        // Check if functionName is annotated with @l1_handler, other functions may share its name
+        const func = findFunction(this.abi, functionName, ["l1_handler"]);
 
-        if (!func?.type || func.type.toString() !== "l1_handler") {
+        if (!func) {
             throw new StarknetPluginError(
                 `Cannot estimate message fee on "${functionName}" - not an @l1_handler`
             );
         }
-        const adaptedInput = this.adaptInput(functionName, args);
+        const adaptedInput = this.adaptFunctionInput(functionName, func, args);
         // Remove value of from_address from the input array
         const fromAddress = adaptedInput.shift();
         return this.hre.starknetWrapper.estimateMessageFee(
-            functionName,
+            func.name,
             fromAddress,
             this.address,
             adaptedInput
@@ -701,9 +913,9 @@ export class StarknetContract {
      * @param options optional execution specifications
      * @returns an object containing the amount and the unit of the estimation
      */
-    async estimateFee(
-        functionName: string,
-        args?: StringMap,
+    async estimateFee<N extends keyof F & string>(
+        functionName: N,
+        args?: F[N]["inputs"],
         options: EstimateFeeOptions = {}
     ): Promise<starknet.FeeEstimation> {
         try {
@@ -743,6 +955,29 @@ export class StarknetContract {
         return this.abi;
     }
 
+    /**
+     * @param functionName the name of the function, possibly qualified with its interface, or its selector
+     * @returns the function, as specified in the ABI
+     * @throws if there is no such function or if `functionName` is ambiguous
+     */
+    private getFunction(functionName: string): starknet.CairoFunction {
+        const func = findFunction(this.abi, functionName);
+        if (!func) {
+            const msg = `Function '${functionName}' doesn't exist on ${this.abiPath}.`;
+            throw new StarknetPluginError(msg);
+        }
+        return func;
+    }
+
+    /**
+     * @param functionName the name of the function, possibly qualified with its interface, or its selector
+     * @returns the name of the entry point of the function
+     * @throws if there is no such function or if `functionName` is ambiguous
+     */
+    getEntrypointName(functionName: string): string {
+        return this.getFunction(functionName).name;
+    }
+
     /**
      * Adapt structured `args` to unstructured array expected by e.g. Starknet CLI.
      * @param functionName the name of the function to adapt
@@ -750,17 +985,26 @@ export class StarknetContract {
      * @returns unstructured args
      */
     adaptInput(functionName: string, args?: StringMap): string[] {
-        const func = <starknet.CairoFunction>this.abi[functionName];
-        if (!func) {
-            const msg = `Function '${functionName}' doesn't exist on ${this.abiPath}.`;
-            throw new StarknetPluginError(msg);
-        }
+        return this.adaptFunctionInput(functionName, this.getFunction(functionName), args);
+    }
 
+    private adaptFunctionInput(
+        functionName: string,
+        func: starknet.CairoFunction,
+        args?: StringMap
+    ): string[] {
         if (Array.isArray(args)) {
             throw new StarknetPluginError("Arguments should be passed in the form of an object.");
         }
 
-        return adaptInputUtil(functionName, args, func.inputs, this.abi, this.isCairo1);
+        return adaptInputUtil(
+            functionName,
+            args,
+            func.inputs,
+            this.abi,
+            this.isCairo1,
+            this.hre.starknet.codecs
+        );
     }
 
     /**
@@ -770,8 +1014,8 @@ export class StarknetContract {
      * @returns structured output
      */
     adaptOutput(functionName: string, rawResult: string) {
-        const func = <starknet.CairoFunction>this.abi[functionName];
-        return adaptOutputUtil(rawResult, func.outputs, this.abi);
+        const func = this.getFunction(functionName);
+        return adaptOutputUtil(rawResult, func.outputs, this.abi, this.hre.starknet.codecs);
     }
 
     /**
@@ -785,15 +1029,91 @@ export class StarknetContract {
         const abi = json.parse(this.abiRaw);
         const abiEvents = eventUtil.getAbiEvents(abi);
         const abiStructs = CallData.getAbiStruct(abi);
+        const codecs = this.hre.starknet.codecs;
+
+        const decodedEvents: DecodedEvent[] = [];
+        for (const event of events) {
+            const abiEvent = abiEvents[event.keys[0]];
+            if (!abiEvent) {
+                continue;
+            }
+
+            const keySpecs =
+                "members" in abiEvent
+                    ? abiEvent.members.filter((member) => member.kind === "key")
+                    : abiEvent.keys;
+            const dataSpecs =
+                "members" in abiEvent
+                    ? abiEvent.members.filter((member) => member.kind === "data")
+                    : abiEvent.data;
+
+            const specs = [...keySpecs, ...dataSpecs];
+            if (!specs.some((spec) => requiresAdaptation(spec.type, this.abi, codecs))) {
+                // copied since parsing removes the selector from the keys
+                const eventCopy = { ...event, keys: [...event.keys] };
+                const [parsedEvent] = eventUtil.parseEvents([eventCopy], abiEvents, abiStructs, {});
+                const [name, data] = Object.entries(parsedEvent)[0];
+                decodedEvents.push({ name, data });
+                continue;
+            }
 
-        const decodedEvents = eventUtil
-            .parseEvents(events, abiEvents, abiStructs, {})
-            .map((event) => {
-                const [name, data] = Object.entries(event)[0];
-                return { name, data };
+            // decoded the same way as function outputs, since starknet.js doesn't decode ByteArray or apply codecs
+            const keys = event.keys.slice(1).join(" ");
+            const data = event.data.join(" ");
+            decodedEvents.push({
+                name: abiEvent.name,
+                data: {
+                    ...adaptOutputUtil(keys, keySpecs, this.abi, codecs),
+                    ...adaptOutputUtil(data, dataSpecs, this.abi, codecs)
+                }
             });
+        }
         return decodedEvents;
     }
+
+    /**
+     * Decode the invocations of this contract in the trace, including internal calls,
+     * the same way as function outputs and events, so that codecs are applied.
+     * Invocations of other contracts and of functions not in the ABI are skipped.
+     * @param trace as received from the server, e.g. by `starknet.getTransactionTrace`
+     * @returns the decoded invocations, in the order of execution
+     */
+    decodeTrace(trace: starknet.TransactionTrace): DecodedInvocation[] {
+        const codecs = this.hre.starknet.codecs;
+        const decodedInvocations: DecodedInvocation[] = [];
+
+        const decodeInvocation = (invocation: starknet.FunctionInvocation) => {
+            if (BigInt(invocation.contract_address) === BigInt(this.address)) {
+                const func = findFunction(this.abi, invocation.selector);
+                if (func) {
+                    decodedInvocations.push({
+                        name: func.name,
+                        args: adaptOutputUtil(
+                            invocation.calldata.join(" "),
+                            func.inputs,
+                            this.abi,
+                            codecs
+                        ),
+                        result: adaptOutputUtil(
+                            invocation.result.join(" "),
+                            func.outputs,
+                            this.abi,
+                            codecs
+                        ),
+                        events: this.decodeEvents(invocation.events)
+                    });
+                }
+            }
+            invocation.internal_calls.forEach(decodeInvocation);
+        };
+
+        [
+            trace.validate_invocation,
+            trace.function_invocation,
+            trace.fee_transfer_invocation
+        ].forEach((invocation) => invocation && decodeInvocation(invocation));
+        return decodedInvocations;
+    }
 }
 
 export interface ContractClassConfig extends StarknetContractConfig {
@@ -830,10 +1150,14 @@ export class Cairo1ContractClass extends StarknetContract {
 }
 
 export interface ScarbConfig {
-    package: {
+    // not present in the manifest of a virtual workspace
+    package?: {
         name: string;
         version: string;
     };
+    workspace?: {
+        members?: string[];
+    };
     target: {
         "starknet-contract": {
             name?: string;
@@ -846,3 +1170,18 @@ export interface ScarbConfig {
     };
     dependencies: StringMap;
 }
+
+/**
+ * An entry of `contracts` in the main artifact (`<package>.starknet_artifacts.json`) generated by Scarb
+ */
+export interface ScarbContractEntry {
+    id: string;
+    package_name: string;
+    contract_name: string;
+    // e.g. my_pkg::tokens::ERC20; not generated by older Scarb versions
+    module_path?: string;
+    artifacts: {
+        sierra?: string;
+        casm?: string;
+    };
+}
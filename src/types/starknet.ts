@@ -1,9 +1,16 @@
 import { Block, HardhatNetworkConfig, NetworkConfig, Transaction } from "hardhat/types";
 
-import { BlockIdentifier, NonceQueryOptions, StarknetContractFactory } from ".";
+import {
+    BlockIdentifier,
+    ContractFunctionTypes,
+    NonceQueryOptions,
+    StarknetContractFactory,
+    UntypedContractFunctions
+} from ".";
 import { Devnet } from "./devnet";
+import { CodecRegistry } from "../codecs";
 import { ArgentAccount, OpenZeppelinAccount } from "../account";
-import { TransactionReceipt, TransactionTrace } from "../starknet-types";
+import { ByteArray, TransactionReceipt, TransactionTrace } from "../starknet-types";
 
 export interface Starknet {
     /**
@@ -12,7 +19,9 @@ export interface Starknet {
      * @param name the case-sensitive contract name
      * @returns a factory for generating instances of the desired contract
      */
-    getContractFactory: (name: string) => Promise<StarknetContractFactory>;
+    getContractFactory: <F extends ContractFunctionTypes = UntypedContractFunctions>(
+        name: string
+    ) => Promise<StarknetContractFactory<F>>;
 
     /**
      * Cairo and Starknet source files may contain short string literals,
@@ -33,6 +42,28 @@ export interface Starknet {
      */
     bigIntToShortString: (convertibleBigInt: bigint) => string;
 
+    /**
+     * Converts a string of arbitrary length to the Cairo 1 `ByteArray` representation, encoding it as UTF-8.
+     * Functions adapting input accept plain strings for `ByteArray` arguments, so this is only needed
+     * when constructing raw calldata.
+     * @param input the input string
+     * @returns the string split into 31-byte words, followed by the pending word and its length in bytes
+     */
+    stringToByteArray: (input: string) => ByteArray;
+
+    /**
+     * Converts a Cairo 1 `ByteArray` to a string, decoding it as UTF-8. The opposite of {@link stringToByteArray}.
+     * @param byteArray the input ByteArray
+     * @returns the string held by the ByteArray
+     */
+    byteArrayToString: (byteArray: ByteArray) => string;
+
+    /**
+     * Codecs of Cairo types, applied to function arguments and results, constructor arguments and decoded events.
+     * E.g. `starknet.codecs.register("my_pkg::Fixed", { encode: ..., decode: ... })`.
+     */
+    codecs: CodecRegistry;
+
     /**
      * The selected starknet-network name.
      * Present if the called task relies on `--starknet-network` or `starknet["network"]` in the config object.
@@ -84,6 +115,50 @@ export interface Starknet {
     ArgentAccount: typeof ArgentAccount;
 }
 
+export type ScarbBuildConfig = {
+    /** Scarb profile to build with, e.g. "release"; defaults to "dev" */
+    profile?: string;
+    /** Features of the built packages to be enabled */
+    features?: string[];
+    /** Arguments passed to `scarb build` as they are */
+    args?: string[];
+};
+
+export type TypegenConfig = {
+    /** Directory to which the typings are written; defaults to "starknet-typings" */
+    outDir?: string;
+    /** If true, typings are generated after each compilation */
+    runOnCompile?: boolean;
+};
+
+export type CompilerSettings = {
+    /** Cairo 0: compile as an account contract */
+    accountContract?: boolean;
+    /** Cairo 0: compile without validating hints */
+    disableHintValidation?: boolean;
+    /** Cairo 1: replace ids of the Sierra program with human-readable ones */
+    replaceIds?: boolean;
+    /** Cairo 1: the name of the list of libfuncs allowed in the contract, e.g. "experimental" */
+    allowedLibfuncsListName?: string;
+    /** Cairo 1: the path of a file with the list of libfuncs allowed in the contract */
+    allowedLibfuncsListFile?: string;
+    /** Cairo 1: add Pythonic hints to the CASM */
+    addPythonicHints?: boolean;
+    /** Cairo 1, venv mode: the directory of the compiler binaries */
+    cairo1BinDir?: string;
+    /** Cairo 1, Docker mode: the version of the dockerized environment whose compiler is used */
+    cairo1DockerizedVersion?: string;
+};
+
+export type ContractSizeLimits = {
+    /** Maximum number of felts in the Sierra program */
+    sierraProgramLength?: number;
+    /** Maximum number of felts in the CASM bytecode; defaults to 81920 */
+    casmBytecodeLength?: number;
+    /** Maximum number of bytes of the gzipped contract class */
+    compressedClassSize?: number;
+};
+
 export type StarknetConfig = {
     dockerizedVersion?: string;
     venv?: string;
@@ -92,6 +167,19 @@ export type StarknetConfig = {
     networkConfig?: NetworkConfig;
     recompile?: boolean;
     scarbCommand?: string;
+    scarb?: ScarbBuildConfig;
+    typegen?: TypegenConfig;
+    sizeLimits?: ContractSizeLimits;
+    /**
+     * Compiler settings by glob pattern of source files, relative to the project root.
+     * Options provided in the CLI take precedence; if multiple patterns match a file, the latter ones take precedence.
+     */
+    compilerSettings?: Record<string, CompilerSettings>;
+    /**
+     * If set, Hardhat's `compile` also compiles the Starknet sources which changed since they were last compiled.
+     */
+    compileWithHardhat?: boolean;
     cairo1BinDir?: string;
+    compileConcurrency?: number;
     requestTimeout?: number;
 };
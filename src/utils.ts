@@ -1,5 +1,5 @@
 import fs from "fs";
-import { glob } from "glob";
+import { glob, globSync, hasMagic } from "glob";
 import {
     HardhatNetworkConfig,
     HardhatRuntimeEnvironment,
@@ -33,7 +33,13 @@ import {
 import { getContractFactoryUtil } from "./extend-utils";
 import { StarknetPluginError } from "./starknet-plugin-error";
 import { Abi, AbiEntry, CairoFunction } from "./starknet-types";
-import { Cairo1ContractClass, ContractClassConfig, Numeric, StarknetContract } from "./types";
+import {
+    Cairo1ContractClass,
+    ContractClassConfig,
+    Numeric,
+    ScarbContractEntry,
+    StarknetContract
+} from "./types";
 
 /**
  * Replaces Starknet specific terminology with the terminology used in this plugin.
@@ -125,6 +131,62 @@ export function adaptPath(root: string, newPath: string): string {
     return adaptedPath;
 }
 
+/**
+ * Resolves the roots of Starknet sources, as configured in `paths.starknetSources`.
+ * @param root the project root, relative to which the roots are resolved
+ * @param sourcesPaths a root or an array of roots, each possibly a glob pattern matching directories
+ * @returns absolute paths of the roots, none of which is within another
+ */
+export function resolveSourcesRoots(root: string, sourcesPaths: string | string[]): string[] {
+    const roots: string[] = [];
+    for (const sourcesPath of Array.isArray(sourcesPaths) ? sourcesPaths : [sourcesPaths]) {
+        // resolved to drop trailing separators
+        const adaptedPath = path.resolve(adaptPath(root, sourcesPath));
+        if (!hasMagic(sourcesPath)) {
+            roots.push(adaptedPath);
+            continue;
+        }
+        const matchedDirs = globSync(adaptedPath, { absolute: true })
+            .filter((match) => fs.lstatSync(match).isDirectory())
+            .sort();
+        roots.push(...matchedDirs.map((dir) => path.resolve(dir)));
+    }
+
+    for (const sourcesRoot of roots) {
+        const containingRoot = roots.find(
+            (otherRoot) => otherRoot !== sourcesRoot && isWithinDir(sourcesRoot, otherRoot)
+        );
+        if (containingRoot) {
+            const msg = `Invalid paths.starknetSources: ${sourcesRoot} is within ${containingRoot}.`;
+            throw new StarknetPluginError(msg);
+        }
+    }
+    return [...new Set(roots)];
+}
+
+function isWithinDir(file: string, dir: string): boolean {
+    return file.startsWith(dir.endsWith(path.sep) ? dir : dir + path.sep);
+}
+
+/**
+ * @param file absolute path of a source
+ * @param sourcesRoots the roots of Starknet sources
+ * @returns the path of `file` relative to the root containing it, or `file` unchanged if no root contains it
+ */
+export function getPathInSourcesRoot(file: string, sourcesRoots: string[]): string {
+    const sourcesRoot = sourcesRoots.find((candidate) => isWithinDir(file, candidate));
+    return sourcesRoot ? path.relative(sourcesRoot, file) : file;
+}
+
+/**
+ * Returns the fully qualified name of a contract built by Scarb, e.g. `my_pkg::tokens::ERC20`
+ */
+export function getScarbContractModulePath(contractEntry: ScarbContractEntry): string {
+    return (
+        contractEntry.module_path || `${contractEntry.package_name}::${contractEntry.contract_name}`
+    );
+}
+
 export function checkArtifactExists(artifactsPath: string): void {
     if (!fs.existsSync(artifactsPath)) {
         const msg = `Artifact expected to be at ${artifactsPath}, but not found. Consider recompiling your contracts.`;
@@ -201,12 +263,20 @@ export async function findPath(traversable: string, pathSegment: string) {
     } else if (files.length == 1) {
         return files[0];
     } else {
-        const msg =
-            "More than one file was found because the path provided is ambiguous, please specify a relative path";
-        throw new StarknetPluginError(msg);
+        throw getAmbiguousPathError(files.map((file) => path.relative(traversable, file)));
     }
 }
 
+/**
+ * @param candidates the paths matched by an ambiguous path
+ */
+export function getAmbiguousPathError(candidates: string[]) {
+    const msg =
+        "More than one file was found because the path provided is ambiguous, please specify a relative path. " +
+        `Candidates:\n${candidates.map((candidate) => `- ${candidate}`).join("\n")}`;
+    return new StarknetPluginError(msg);
+}
+
 /**
  *
  * @param accountPath Path where the account file is saved
@@ -251,6 +321,31 @@ export function getDevnetImageTagByArch(tag = DEFAULT_DEVNET_DOCKER_IMAGE_TAG):
     return getImageTagByArch(tag);
 }
 
+/**
+ * Runs the provided tasks, at most `concurrency` of them at a time.
+ * @param tasks functions starting the asynchronous work
+ * @param concurrency the maximum number of tasks running at the same time
+ * @returns the results of the tasks, in the order of `tasks`
+ */
+export async function runConcurrently<T>(
+    tasks: (() => Promise<T>)[],
+    concurrency: number
+): Promise<T[]> {
+    const results: T[] = new Array(tasks.length);
+    let nextTaskIndex = 0;
+
+    async function worker() {
+        while (nextTaskIndex < tasks.length) {
+            const taskIndex = nextTaskIndex++;
+            results[taskIndex] = await tasks[taskIndex]();
+        }
+    }
+
+    const workers = Array.from({ length: Math.min(concurrency, tasks.length) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
 export function sleep(ms: number) {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
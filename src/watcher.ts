@@ -0,0 +1,66 @@
+import chokidar from "chokidar";
+import path from "path";
+
+import { PLUGIN_NAME, SCARB_CONFIG_FILE_NAME } from "./constants";
+
+// Time to wait for more changes before reacting, e.g. when an editor saves multiple files
+const DEBOUNCE_MILLIS = 300;
+
+function isWatchedFile(file: string): boolean {
+    return file.endsWith(".cairo") || path.basename(file) === SCARB_CONFIG_FILE_NAME;
+}
+
+/**
+ * Watches Cairo sources and Scarb configs in `paths` and invokes `onChange` once changes settle.
+ * Invocations never overlap; changes occurring during one are handled in the next one.
+ * Errors thrown by `onChange` are logged, after which watching continues.
+ * @param paths the files and directories to watch
+ * @param ignored paths not to be watched, e.g. those into which artifacts are written
+ * @param onChange called with the changed files
+ * @returns a promise which is never resolved, watching lasts until the process is terminated
+ */
+export function watchSources(
+    paths: string[],
+    ignored: string[],
+    onChange: (changedFiles: string[]) => Promise<void>
+): Promise<never> {
+    const pendingFiles: Set<string> = new Set();
+    let timeout: NodeJS.Timeout;
+    let running = false;
+
+    async function handlePending() {
+        if (running) {
+            // rescheduled when the current handling is done
+            return;
+        }
+
+        running = true;
+        while (pendingFiles.size) {
+            const changedFiles = [...pendingFiles];
+            pendingFiles.clear();
+            try {
+                await onChange(changedFiles);
+            } catch (error) {
+                console.error(error);
+            }
+        }
+        running = false;
+        console.log(`${PLUGIN_NAME} plugin watching for changes...`);
+    }
+
+    const watcher = chokidar.watch(paths, { ignored, ignoreInitial: true });
+    watcher.on("all", (_event, file) => {
+        if (!isWatchedFile(file)) {
+            return;
+        }
+
+        pendingFiles.add(path.resolve(file));
+        clearTimeout(timeout);
+        timeout = setTimeout(handlePending, DEBOUNCE_MILLIS);
+    });
+
+    console.log(`${PLUGIN_NAME} plugin watching for changes in: ${paths.join(", ")}`);
+    return new Promise(() => {
+        // never resolved
+    });
+}
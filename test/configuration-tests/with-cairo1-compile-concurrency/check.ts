@@ -0,0 +1,30 @@
+import { hardhatStarknetCompile } from "../../utils/cli-functions";
+import { assertContains, assertExistence, ensureEnvVar } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const contractNames = ["contract1", "events"];
+const contractPaths = contractNames.map((name) => `cairo1-contracts/${name}.cairo`);
+
+console.log("Testing concurrency from config");
+hardhatStarknetCompile([...contractPaths, "--single-file"]);
+for (const contractName of contractNames) {
+    const artifactDir = `starknet-artifacts/cairo1-contracts/${contractName}.cairo`;
+    assertExistence(`${artifactDir}/${contractName}.json`);
+    assertExistence(`${artifactDir}/${contractName}.casm`);
+    assertExistence(`${artifactDir}/${contractName}_abi.json`);
+}
+
+console.log("Testing concurrency from CLI");
+hardhatStarknetCompile([...contractPaths, "--single-file", "--parallel", "3"]);
+
+console.log("Testing failure count with concurrent compilation");
+const execution = hardhatStarknetCompile(
+    [...contractPaths, "contracts/contract.cairo", "--single-file", "--parallel", "3"],
+    true
+);
+assertContains(execution.stderr, "Failed compilation of 1 contract.");
+
+console.log("Testing invalid concurrency");
+const invalidExecution = hardhatStarknetCompile([...contractPaths, "--parallel", "0"], true);
+assertContains(invalidExecution.stderr, "Compilation concurrency must be a positive integer");
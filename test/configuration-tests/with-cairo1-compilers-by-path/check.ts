@@ -0,0 +1,53 @@
+import { copyFileSync, mkdirSync, readFileSync } from "fs";
+import path from "path";
+import { hardhatStarknetCompile } from "../../utils/cli-functions";
+import {
+    assertContains,
+    assertEqual,
+    assertExistence,
+    assertNotEqual,
+    ensureEnvVar
+} from "../../utils/utils";
+
+const compilerDir = ensureEnvVar("CAIRO_1_COMPILER_DIR");
+const byteArrayCompilerDir = ensureEnvVar("BYTE_ARRAY_CAIRO_1_COMPILER_DIR");
+
+const contractName = "versioned_contract";
+const legacyDir = path.join("cairo1-contracts", "legacy");
+const byteArrayDir = path.join("cairo1-contracts", "byte-array");
+const contractPaths = [legacyDir, byteArrayDir].map((dir) => {
+    mkdirSync(dir, { recursive: true });
+    const contractPath = path.join(dir, `${contractName}.cairo`);
+    copyFileSync(path.join(__dirname, `${contractName}.cairo`), contractPath);
+    return contractPath;
+});
+
+function readCompilerMeta(contractPath: string) {
+    const metaPath = path.join("starknet-artifacts", contractPath, `${contractName}.meta.json`);
+    return JSON.parse(readFileSync(metaPath, "utf-8")).compiler;
+}
+
+console.log("Testing compilation with the compilers matched by path");
+// the latter pattern takes precedence for files matched by both
+hardhatStarknetCompile([...contractPaths, "--single-file"]);
+for (const contractPath of contractPaths) {
+    assertExistence(path.join("starknet-artifacts", contractPath, `${contractName}.casm`));
+}
+
+const legacyCompiler = readCompilerMeta(contractPaths[0]);
+const byteArrayCompiler = readCompilerMeta(contractPaths[1]);
+assertEqual(legacyCompiler.binDir, compilerDir);
+assertEqual(byteArrayCompiler.binDir, byteArrayCompilerDir);
+assertNotEqual(legacyCompiler.version, byteArrayCompiler.version);
+
+console.log("Testing the precedence of the CLI over the compilers matched by path");
+const execution = hardhatStarknetCompile([
+    contractPaths[1],
+    "--single-file",
+    "--cairo1-bin-dir",
+    compilerDir
+]);
+assertEqual(readCompilerMeta(contractPaths[1]).binDir, compilerDir);
+assertContains(execution.stderr, "cairo1BinDir of compilerSettings");
+
+console.log("Success");
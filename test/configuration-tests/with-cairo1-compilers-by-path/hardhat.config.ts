@@ -0,0 +1,21 @@
+import "@shardlabs/starknet-hardhat-plugin";
+
+module.exports = {
+    starknet: {
+        venv: "active",
+        network: process.env.NETWORK,
+        compilerSettings: {
+            "cairo1-contracts/**": {
+                cairo1BinDir: process.env.CAIRO_1_COMPILER_DIR
+            },
+            "cairo1-contracts/byte-array/**": {
+                cairo1BinDir: process.env.BYTE_ARRAY_CAIRO_1_COMPILER_DIR
+            }
+        }
+    },
+    networks: {
+        devnet: {
+            url: "http://127.0.0.1:5050"
+        }
+    }
+};
@@ -0,0 +1,12 @@
+#[starknet::contract]
+mod versioned_contract {
+    #[storage]
+    struct Storage {
+        value: felt252
+    }
+
+    #[external(v0)]
+    fn get_value(self: @ContractState) -> felt252 {
+        self.value.read()
+    }
+}
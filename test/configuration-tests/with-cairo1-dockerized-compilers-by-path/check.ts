@@ -0,0 +1,27 @@
+import { copyFileSync, mkdirSync, readFileSync } from "fs";
+import path from "path";
+import { hardhatStarknetCompile } from "../../utils/cli-functions";
+import { assertContains, assertExistence, ensureEnvVar } from "../../utils/utils";
+
+const cairoLangVersion = ensureEnvVar("CAIRO_LANG");
+
+const contractName = "versioned_contract";
+const [pinnedPath, missingPath] = ["pinned", "missing"].map((dirName) => {
+    const dir = path.join("cairo1-contracts", dirName);
+    mkdirSync(dir, { recursive: true });
+    const contractPath = path.join(dir, `${contractName}.cairo`);
+    copyFileSync(path.join(__dirname, `${contractName}.cairo`), contractPath);
+    return contractPath;
+});
+
+console.log("Testing compilation with the dockerized compiler matched by path");
+hardhatStarknetCompile([pinnedPath, "--single-file"]);
+const metaPath = path.join("starknet-artifacts", pinnedPath, `${contractName}.meta.json`);
+const { compiler } = JSON.parse(readFileSync(metaPath, "utf-8"));
+assertContains(compiler.image, `shardlabs/cairo-cli:${cairoLangVersion}`);
+
+// the image of the matched version is used, so compilation fails if there is no such image
+hardhatStarknetCompile([missingPath, "--single-file"], true);
+assertExistence(path.join("starknet-artifacts", missingPath, `${contractName}.casm`), false);
+
+console.log("Success");
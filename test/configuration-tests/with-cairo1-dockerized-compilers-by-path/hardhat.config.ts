@@ -0,0 +1,20 @@
+import "@shardlabs/starknet-hardhat-plugin";
+
+module.exports = {
+    starknet: {
+        network: process.env.NETWORK,
+        compilerSettings: {
+            "cairo1-contracts/pinned/**": {
+                cairo1DockerizedVersion: process.env.CAIRO_LANG
+            },
+            "cairo1-contracts/missing/**": {
+                cairo1DockerizedVersion: "0.0.0-nonexistent"
+            }
+        }
+    },
+    networks: {
+        devnet: {
+            url: "http://127.0.0.1:5050"
+        }
+    }
+};
@@ -0,0 +1,17 @@
+import { copyFileSync, mkdirSync } from "fs";
+import path from "path";
+import { hardhatStarknetCompileDeprecated } from "../../utils/cli-functions";
+import { assertExistence } from "../../utils/utils";
+
+const accountDir = path.join("contracts", "account");
+const accountPath = path.join(accountDir, "dummy_account.cairo");
+mkdirSync(accountDir, { recursive: true });
+copyFileSync(path.join(__dirname, "dummy_account.cairo"), accountPath);
+
+console.log("Testing compilation with settings matched by path");
+// only the account contract is compiled as one, without the CLI flag
+hardhatStarknetCompileDeprecated([accountPath, "contracts/contract.cairo"]);
+assertExistence("starknet-artifacts/contracts/account/dummy_account.cairo/dummy_account.json");
+assertExistence("starknet-artifacts/contracts/contract.cairo/contract.json");
+
+console.log("Success");
@@ -0,0 +1,16 @@
+%lang starknet
+
+@external
+func __execute__() {
+    return ();
+}
+
+@external
+func __validate_declare__(class_hash: felt) {
+    return ();
+}
+
+@external
+func __validate__() {
+    return ();
+}
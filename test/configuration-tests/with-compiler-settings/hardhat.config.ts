@@ -0,0 +1,17 @@
+import "@shardlabs/starknet-hardhat-plugin";
+
+module.exports = {
+    starknet: {
+        network: process.env.NETWORK,
+        compilerSettings: {
+            "contracts/account/**": {
+                accountContract: true
+            }
+        }
+    },
+    networks: {
+        devnet: {
+            url: "http://127.0.0.1:5050"
+        }
+    }
+};
@@ -0,0 +1,22 @@
+import { hardhatStarknetCompile, hardhatStarknetSize } from "../../utils/cli-functions";
+import { assertContains, ensureEnvVar } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+console.log("Testing size summary after compilation");
+const compilation = hardhatStarknetCompile(["cairo1-contracts/contract1.cairo", "--single-file"]);
+assertContains(compilation.stdout, "Contract sizes:");
+assertContains(compilation.stdout, "cairo1-contracts/contract1.cairo");
+// exceeding a limit doesn't fail the compilation
+assertContains(
+    compilation.stderr,
+    "Warning: cairo1-contracts/contract1.cairo: CASM bytecode length"
+);
+assertContains(compilation.stderr, "exceeds the limit of 10");
+
+console.log("Testing size report of the task");
+const report = hardhatStarknetSize([], true);
+assertContains(report.stdout, "Contract sizes:");
+assertContains(report.stderr, "1 contract exceeds the configured size limits.");
+
+console.log("Success");
@@ -0,0 +1,18 @@
+import "@shardlabs/starknet-hardhat-plugin";
+
+module.exports = {
+    starknet: {
+        venv: "active",
+        network: process.env.NETWORK,
+        cairo1BinDir: process.env.CAIRO_1_COMPILER_DIR,
+        sizeLimits: {
+            // low enough to be exceeded by any contract
+            casmBytecodeLength: 10
+        }
+    },
+    networks: {
+        devnet: {
+            url: "http://127.0.0.1:5050"
+        }
+    }
+};
@@ -0,0 +1,21 @@
+import { hardhatStarknetCompile } from "../../utils/cli-functions";
+import { assertContains, assertExistence } from "../../utils/utils";
+
+// multiple files and steps, all compiled in the same container
+const contractNames = ["contract1", "events"];
+const contractPaths = contractNames.map((name) => `cairo1-contracts/${name}.cairo`);
+hardhatStarknetCompile([...contractPaths, "--single-file", "--parallel", "2"]);
+
+for (const contractName of contractNames) {
+    const artifactDir = `starknet-artifacts/cairo1-contracts/${contractName}.cairo`;
+    assertExistence(`${artifactDir}/${contractName}.json`);
+    assertExistence(`${artifactDir}/${contractName}.casm`);
+    assertExistence(`${artifactDir}/${contractName}_abi.json`);
+}
+
+// failures are still reported per file
+const execution = hardhatStarknetCompile(
+    [...contractPaths, "contracts/contract.cairo", "--single-file"],
+    true
+);
+assertContains(execution.stderr, "Failed compilation of 1 contract.");
@@ -0,0 +1,49 @@
+import { copyFileSync, cpSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { hardhatCompile } from "../../utils/cli-functions";
+import { scarbArtifactsAssertion } from "../../utils/scarb-utils";
+import {
+    assertContains,
+    assertEqual,
+    assertExistence,
+    ensureEnvVar,
+    rmrfSync
+} from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const sourcesPath = "mixed-sources";
+const projectPath = path.join(sourcesPath, "cairo1_sample_project");
+mkdirSync(sourcesPath);
+copyFileSync("contracts/contract.cairo", path.join(sourcesPath, "contract.cairo"));
+cpSync("cairo1_sample_project", projectPath, { recursive: true });
+
+console.log("Testing compilation of changed sources");
+const compilation = hardhatCompile([]);
+assertContains(compilation.stdout, "Compiled 2 Starknet sources:");
+// the Cairo 0 file is compiled on its own, the Scarb package is built
+assertExistence("starknet-artifacts/mixed-sources/contract.cairo/contract.json");
+scarbArtifactsAssertion(projectPath);
+
+console.log("Testing compilation without changes");
+const unchanged = hardhatCompile([]);
+assertContains(unchanged.stdout, "No Starknet sources need compiling.");
+
+console.log("Testing forced compilation");
+const forced = hardhatCompile(["--force"]);
+assertContains(forced.stdout, "Compiled 2 Starknet sources:");
+
+console.log("Testing that failed sources are not recorded in the cache");
+const brokenPath = path.join(sourcesPath, "broken.cairo");
+writeFileSync(brokenPath, "%lang starknet\n\nfunc broken(\n");
+hardhatCompile([], true);
+const cache = JSON.parse(readFileSync("cache/cairo-files-cache.json").toString());
+assertEqual(path.resolve(brokenPath) in cache, false);
+// still failing, so compiled again instead of being considered up to date
+hardhatCompile([], true);
+
+rmrfSync(brokenPath);
+const fixed = hardhatCompile([]);
+assertContains(fixed.stdout, "No Starknet sources need compiling.");
+
+console.log("Success");
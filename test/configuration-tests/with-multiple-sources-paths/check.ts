@@ -0,0 +1,20 @@
+import { copyFileSync, mkdirSync } from "fs";
+import path from "path";
+import { hardhatStarknetCompileDeprecated } from "../../utils/cli-functions";
+import { assertExistence } from "../../utils/utils";
+
+// equally named sources in different roots
+for (const packageName of ["token", "vault"]) {
+    const sourcesRoot = path.join("packages", packageName, "cairo");
+    mkdirSync(sourcesRoot, { recursive: true });
+    copyFileSync("contracts/contract.cairo", path.join(sourcesRoot, "contract.cairo"));
+}
+
+// compile without specifying paths to see if all roots are compiled
+hardhatStarknetCompileDeprecated([]);
+
+assertExistence("starknet-artifacts/contracts/contract.cairo/contract.json");
+assertExistence("starknet-artifacts/packages/token/cairo/contract.cairo/contract.json");
+assertExistence("starknet-artifacts/packages/vault/cairo/contract.cairo/contract.json");
+
+console.log("Success");
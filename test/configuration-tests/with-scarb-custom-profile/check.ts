@@ -0,0 +1,49 @@
+import path from "path";
+import { hardhatStarknetBuild } from "../../utils/cli-functions";
+import { scarbAssertions } from "../../utils/scarb-utils";
+import { assertContains, assertExistence, rmrfSync } from "../../utils/utils";
+
+const projectName = "cairo1_sample_project";
+const mainArtifactName = "sample_package_name.starknet_artifacts.json";
+const artifactDirPath = path.join("starknet-artifacts", projectName);
+
+// profile from the config file
+hardhatStarknetBuild([projectName]);
+assertExistence(path.join(artifactDirPath, "release", mainArtifactName));
+assertExistence(path.join(artifactDirPath, "dev", mainArtifactName), false);
+scarbAssertions(projectName);
+
+// the CLI overrides the config file
+rmrfSync("starknet-artifacts");
+hardhatStarknetBuild([projectName, "--profile", "dev"]);
+assertExistence(path.join(artifactDirPath, "dev", mainArtifactName));
+assertExistence(path.join(artifactDirPath, "release", mainArtifactName), false);
+
+// the pinned Scarb doesn't support features, so enabling them is rejected before building
+const featuresError = "Enabling features requires Scarb 2.5.0 or newer";
+rmrfSync("starknet-artifacts");
+const cliFeaturesExecution = hardhatStarknetBuild([projectName, "--features", "foo"], true);
+assertContains(cliFeaturesExecution.stderr, featuresError);
+assertExistence(path.join(artifactDirPath, "release", mainArtifactName), false);
+
+process.env.SCARB_FEATURES = "foo,bar";
+const configFeaturesExecution = hardhatStarknetBuild([projectName], true);
+assertContains(configFeaturesExecution.stderr, featuresError);
+assertExistence(path.join(artifactDirPath, "release", mainArtifactName), false);
+delete process.env.SCARB_FEATURES;
+
+// args from the config file reach Scarb: building a nonexistent package fails
+const missingPackage = "missing_package_name";
+process.env.SCARB_ARGS = `--package ${missingPackage}`;
+const configArgsExecution = hardhatStarknetBuild([projectName], true);
+assertContains(configArgsExecution.stdout + configArgsExecution.stderr, missingPackage);
+assertExistence(path.join(artifactDirPath, "release", mainArtifactName), false);
+
+// args from the CLI override the ones from the config file
+hardhatStarknetBuild([
+    projectName,
+    "--scarb-args",
+    JSON.stringify("--package sample_package_name")
+]);
+assertExistence(path.join(artifactDirPath, "release", mainArtifactName));
+delete process.env.SCARB_ARGS;
@@ -0,0 +1,19 @@
+import "@shardlabs/starknet-hardhat-plugin";
+
+module.exports = {
+    starknet: {
+        network: process.env.NETWORK,
+        scarbCommand: `${process.env.HOME}/.local/bin/scarb`,
+        scarb: {
+            profile: "release",
+            // set by check.ts to test passing options from the config file
+            features: process.env.SCARB_FEATURES?.split(","),
+            args: process.env.SCARB_ARGS?.split(" ")
+        }
+    },
+    networks: {
+        devnet: {
+            url: "http://127.0.0.1:5050"
+        }
+    }
+};
@@ -0,0 +1,38 @@
+import { hardhatStarknetBuild, hardhatStarknetRun } from "../../utils/cli-functions";
+import { assertContains } from "../../utils/utils";
+import * as fs from "fs";
+import path from "path";
+
+const projectName = "cairo1_sample_project";
+const copiedProjectName = "cairo1_copied_project";
+const packageName = "sample_package_name";
+
+hardhatStarknetBuild([projectName]);
+
+// the qualified name is the module path of the contract, as reported by Scarb
+const mainArtifactPath = path.join(
+    "starknet-artifacts",
+    projectName,
+    "dev",
+    `${packageName}.starknet_artifacts.json`
+);
+const mainArtifact = JSON.parse(fs.readFileSync(mainArtifactPath, "utf-8"));
+const contractEntry = mainArtifact.contracts.find(
+    (entry: { contract_name: string }) => entry.contract_name === "FirstContract"
+);
+const qualifiedName: string = contractEntry.module_path;
+assertContains(qualifiedName, `${packageName}::`);
+
+function declare(contractName: string, expectFailure = false) {
+    process.env.DECLARABLE_CONTRACT = contractName;
+    return hardhatStarknetRun(["scripts/declare.ts", "--no-compile"], expectFailure);
+}
+
+declare(qualifiedName);
+
+// the same qualified name in another project is ambiguous
+fs.cpSync(projectName, copiedProjectName, { recursive: true });
+hardhatStarknetBuild([copiedProjectName]);
+const execution = declare(qualifiedName, true);
+assertContains(execution.stderr, `Contract name "${qualifiedName}" is ambiguous. Candidates:`);
+assertContains(execution.stderr, copiedProjectName);
@@ -0,0 +1,37 @@
+import { hardhatStarknetBuild } from "../../utils/cli-functions";
+import { scarbArtifactsAssertion } from "../../utils/scarb-utils";
+import { assertContains } from "../../utils/utils";
+import * as fs from "fs";
+import path from "path";
+
+// generate a workspace with two members - copies of the sample project
+const projectName = "cairo1_sample_project";
+const workspaceName = "cairo1_workspace";
+const memberPackageNames = ["another_package_name", "sample_package_name"];
+
+for (const packageName of memberPackageNames) {
+    const memberDir = path.join(workspaceName, "crates", packageName);
+    fs.cpSync(projectName, memberDir, { recursive: true });
+
+    const memberConfigPath = path.join(memberDir, "Scarb.toml");
+    const memberConfig = fs.readFileSync(memberConfigPath, "utf-8");
+    fs.writeFileSync(
+        memberConfigPath,
+        memberConfig.replace(/^name = ".*"$/m, `name = "${packageName}"`)
+    );
+}
+fs.writeFileSync(
+    path.join(workspaceName, "Scarb.toml"),
+    `[workspace]\nmembers = ${JSON.stringify(["crates/*"])}\n`
+);
+
+// members are built once, through the workspace root
+const buildResult = hardhatStarknetBuild([workspaceName]);
+assertContains(
+    buildResult.stdout,
+    `Building workspace with packages ${memberPackageNames.join(", ")}`
+);
+
+for (const packageName of memberPackageNames) {
+    scarbArtifactsAssertion(workspaceName, packageName);
+}
@@ -1,7 +1,10 @@
 import { hardhatStarknetBuild } from "../../utils/cli-functions";
+import { scarbAssertions } from "../../utils/scarb-utils";
 import { assertContains } from "../../utils/utils";
 
+// no scarbCommand configured, so the locally pulled cairo-cli image is used
 const projectName = "cairo1_sample_project";
-const buildResult = hardhatStarknetBuild([projectName], true);
-console.log("Temporarily expecting that dockerized scarb cannot be used");
-assertContains(buildResult.stderr, "Dockerized Scarb is not yet supported");
+const buildResult = hardhatStarknetBuild([projectName]);
+assertContains(buildResult.stdout, "Starknet plugin using dockerized Scarb");
+
+scarbAssertions(projectName);
@@ -0,0 +1,16 @@
+import { hardhatStarknetCompileDeprecated, hardhatStarknetRun } from "../../utils/cli-functions";
+import { assertEqual, assertExistence } from "../../utils/utils";
+import * as fs from "fs";
+
+const indexPath = "starknet-artifacts/artifacts-index.json";
+
+hardhatStarknetCompileDeprecated(["contracts/contract.cairo"]);
+assertExistence(indexPath);
+
+const index = JSON.parse(fs.readFileSync(indexPath, "utf-8"));
+const entry = index["contracts/contract"];
+assertEqual(entry.metadataPath, "contracts/contract.cairo/contract.json");
+assertEqual(entry.abiPath, "contracts/contract.cairo/contract_abi.json");
+
+// contracts are loaded through the index
+hardhatStarknetRun(["--no-compile", "scripts/deploy.ts"]);
@@ -0,0 +1,30 @@
+import { appendFileSync, copyFileSync, readFileSync } from "fs";
+import path from "path";
+import {
+    hardhatStarknetArtifactsCheck,
+    hardhatStarknetCompileDeprecated
+} from "../../utils/cli-functions";
+import { assertContains, assertEqual } from "../../utils/utils";
+
+const contractName = "checked_contract.cairo";
+const contractPath = path.join("contracts", contractName);
+copyFileSync(path.join(__dirname, contractName), contractPath);
+
+console.log("Testing meta recorded on compilation");
+hardhatStarknetCompileDeprecated([contractPath, "--disable-hint-validation"]);
+const metaPath = "starknet-artifacts/contracts/checked_contract.cairo/checked_contract.meta.json";
+const meta = JSON.parse(readFileSync(metaPath, "utf-8"));
+assertEqual(meta.source, contractPath);
+assertEqual(meta.sourceType, "cairo0");
+assertEqual(meta.options.disableHintValidation, true);
+assertEqual(typeof meta.compiler.version, "string");
+
+console.log("Testing check of up-to-date artifacts");
+hardhatStarknetArtifactsCheck([]);
+
+console.log("Testing check of stale artifacts");
+appendFileSync(contractPath, "\n// changed\n");
+const execution = hardhatStarknetArtifactsCheck([], true);
+assertContains(execution.stdout, `source ${contractPath} changed since compilation`);
+
+console.log("Success");
@@ -0,0 +1,6 @@
+%lang starknet
+
+@view
+func get_answer() -> (res: felt) {
+    return (res=42);
+}
@@ -0,0 +1,73 @@
+import { deepStrictEqual, throws } from "assert";
+import hre from "hardhat";
+
+// starknet_keccak("Echoed")
+const ECHOED_EVENT_KEY = "0x35033a9af120b2670a740ba2a289685872c3cfbd1b0e92d1180f85f38d2bcaa";
+// starknet_keccak("Measured")
+const MEASURED_EVENT_KEY = "0x7e83647a0da32c90cc021879c48628a5db232d1991747ef502ae824d03deff";
+
+async function main() {
+    // longer than a single 31-byte word, with multi-byte UTF-8 characters
+    const text = "Žluťoučký kůň úpěl ďábelské ódy 🐴";
+
+    const byteArray = hre.starknet.stringToByteArray(text);
+    deepStrictEqual(byteArray.data.length, 1);
+    deepStrictEqual(byteArray.pending_word_len, Buffer.byteLength(text) - 31);
+    deepStrictEqual(hre.starknet.byteArrayToString(byteArray), text);
+
+    deepStrictEqual(hre.starknet.stringToByteArray("hello"), {
+        data: [],
+        pending_word: BigInt("0x68656c6c6f"),
+        pending_word_len: 5
+    });
+    deepStrictEqual(hre.starknet.stringToByteArray(""), {
+        data: [],
+        pending_word: 0n,
+        pending_word_len: 0
+    });
+
+    const contractFactory = await hre.starknet.getContractFactory("byte_array_contract");
+    // adaptation doesn't require a deployed contract
+    const contract = contractFactory.getContractAt("0x1");
+
+    const serialized = [
+        byteArray.data.length,
+        ...byteArray.data,
+        byteArray.pending_word,
+        byteArray.pending_word_len
+    ].map((felt) => felt.toString());
+    deepStrictEqual(contract.adaptInput("echo", { value: text }), serialized);
+    deepStrictEqual(contract.adaptOutput("echo", serialized.join(" ")), text);
+    throws(() => contract.adaptInput("echo", { value: 5 }), /Expected value to be a string/);
+
+    const events = contract.decodeEvents([
+        {
+            from_address: contract.address,
+            keys: [ECHOED_EVENT_KEY],
+            data: serialized
+        }
+    ]);
+    deepStrictEqual(events, [{ name: "Echoed", data: { value: text } }]);
+
+    // events without ByteArray are decoded by starknet.js, as before ByteArray support
+    const length = Buffer.byteLength(text);
+    const measuredEvent = {
+        from_address: contract.address,
+        keys: [MEASURED_EVENT_KEY, length.toString()],
+        data: [length.toString(), "0"]
+    };
+    deepStrictEqual(contract.decodeEvents([measuredEvent]), [
+        { name: "Measured", data: { length: BigInt(length), total: BigInt(length) } }
+    ]);
+    // the received event is not modified
+    deepStrictEqual(measuredEvent.keys, [MEASURED_EVENT_KEY, length.toString()]);
+
+    console.log("ByteArrays adapted as expected");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
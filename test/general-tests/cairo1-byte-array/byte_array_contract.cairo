@@ -0,0 +1,38 @@
+#[starknet::interface]
+trait IByteArrayContract<TContractState> {
+    fn echo(ref self: TContractState, value: ByteArray) -> ByteArray;
+}
+
+#[starknet::contract]
+mod ByteArrayContract {
+    #[storage]
+    struct Storage {}
+
+    #[event]
+    #[derive(Drop, starknet::Event)]
+    enum Event {
+        Echoed: Echoed,
+        Measured: Measured
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct Echoed {
+        value: ByteArray
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct Measured {
+        #[key]
+        length: u32,
+        total: u256
+    }
+
+    #[abi(embed_v0)]
+    impl ByteArrayContractImpl of super::IByteArrayContract<ContractState> {
+        fn echo(ref self: ContractState, value: ByteArray) -> ByteArray {
+            self.emit(Echoed { value: value.clone() });
+            self.emit(Measured { length: value.len(), total: value.len().into() });
+            value
+        }
+    }
+}
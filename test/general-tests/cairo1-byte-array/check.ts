@@ -0,0 +1,20 @@
+import { copyFileSync } from "fs";
+import path from "path";
+import { hardhatStarknetCompile, hardhatStarknetRun } from "../../utils/cli-functions";
+import { ensureEnvVar } from "../../utils/utils";
+
+// the default Cairo 1 compiler predates ByteArray
+const byteArrayCompilerDir = ensureEnvVar("BYTE_ARRAY_CAIRO_1_COMPILER_DIR");
+
+const contractName = "byte_array_contract.cairo";
+const contractPath = path.join("cairo1-contracts", contractName);
+copyFileSync(path.join(__dirname, contractName), contractPath);
+
+const scriptName = "adapt-byte-arrays.ts";
+const scriptPath = path.join("scripts", scriptName);
+copyFileSync(path.join(__dirname, scriptName), scriptPath);
+
+hardhatStarknetCompile([contractPath, "--single-file", "--cairo1-bin-dir", byteArrayCompilerDir]);
+hardhatStarknetRun(["--no-compile", scriptPath]);
+
+console.log("Success");
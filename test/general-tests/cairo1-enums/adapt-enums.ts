@@ -0,0 +1,36 @@
+import { deepStrictEqual } from "assert";
+import hre from "hardhat";
+
+async function main() {
+    const contractFactory = await hre.starknet.getContractFactory("enum_contract");
+    // adaptation doesn't require a deployed contract
+    const contract = contractFactory.getContractAt("0x1");
+
+    deepStrictEqual(contract.adaptInput("echo_option", { value: { variant: "Some", value: 5 } }), [
+        "0",
+        "5"
+    ]);
+    deepStrictEqual(contract.adaptInput("echo_option", { value: { variant: "None" } }), ["1"]);
+    deepStrictEqual(contract.adaptOutput("echo_option", "0 5"), { variant: "Some", value: 5n });
+    deepStrictEqual(contract.adaptOutput("echo_option", "1"), { variant: "None" });
+
+    deepStrictEqual(contract.adaptInput("echo_result", { value: { variant: "Err", value: 7 } }), [
+        "1",
+        "7"
+    ]);
+    deepStrictEqual(contract.adaptOutput("echo_result", "0 3 0"), { variant: "Ok", value: 3n });
+
+    const direction = { variant: "Move", value: [4n, 5n] };
+    deepStrictEqual(contract.adaptInput("echo_direction", { direction }), ["1", "4", "5", "0"]);
+    deepStrictEqual(contract.adaptOutput("echo_direction", "1 4 5 0"), direction);
+    deepStrictEqual(contract.adaptOutput("echo_direction", "0"), { variant: "Stay" });
+
+    console.log("Enums adapted as expected");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
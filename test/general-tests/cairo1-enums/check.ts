@@ -0,0 +1,32 @@
+import { copyFileSync, readFileSync } from "fs";
+import path from "path";
+import {
+    hardhatStarknetCompile,
+    hardhatStarknetRun,
+    hardhatStarknetTypegen
+} from "../../utils/cli-functions";
+import { assertContains, ensureEnvVar } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const contractName = "enum_contract.cairo";
+const contractPath = path.join("cairo1-contracts", contractName);
+copyFileSync(path.join(__dirname, contractName), contractPath);
+
+const scriptName = "adapt-enums.ts";
+const scriptPath = path.join("scripts", scriptName);
+copyFileSync(path.join(__dirname, scriptName), scriptPath);
+
+hardhatStarknetCompile([contractPath, "--single-file"]);
+
+console.log("Testing typings of enums");
+hardhatStarknetTypegen([]);
+const typings = readFileSync("starknet-typings/cairo1-contracts/enum_contract.ts", "utf-8");
+const variant = (name: string) => `{ variant: "${name}"`;
+assertContains(typings, `${variant("Some")}; value: Numeric | string } | ${variant("None")} }`);
+assertContains(typings, `${variant("Stay")} } | ${variant("Move")}; value: [bigint, bigint] }`);
+
+console.log("Testing adaptation of enums");
+hardhatStarknetRun(["--no-compile", scriptPath]);
+
+console.log("Success");
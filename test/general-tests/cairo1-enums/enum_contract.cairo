@@ -0,0 +1,35 @@
+#[derive(Copy, Drop, Serde)]
+enum Direction {
+    Stay: (),
+    Move: (felt252, u256),
+}
+
+#[starknet::interface]
+trait IEnumContract<TContractState> {
+    fn echo_option(self: @TContractState, value: Option<felt252>) -> Option<felt252>;
+    fn echo_result(self: @TContractState, value: Result<u256, felt252>) -> Result<u256, felt252>;
+    fn echo_direction(self: @TContractState, direction: Direction) -> Direction;
+}
+
+#[starknet::contract]
+mod EnumContract {
+    use super::Direction;
+
+    #[storage]
+    struct Storage {}
+
+    #[external(v0)]
+    impl EnumContractImpl of super::IEnumContract<ContractState> {
+        fn echo_option(self: @ContractState, value: Option<felt252>) -> Option<felt252> {
+            value
+        }
+
+        fn echo_result(self: @ContractState, value: Result<u256, felt252>) -> Result<u256, felt252> {
+            value
+        }
+
+        fn echo_direction(self: @ContractState, direction: Direction) -> Direction {
+            direction
+        }
+    }
+}
@@ -0,0 +1,72 @@
+import { deepStrictEqual, throws } from "assert";
+import hre from "hardhat";
+
+const PRIME = BigInt(2) ** BigInt(251) + BigInt(17) * BigInt(2) ** BigInt(192) + BigInt(1);
+
+async function main() {
+    const contractFactory = await hre.starknet.getContractFactory("integer_contract");
+    // adaptation doesn't require a deployed contract
+    const contract = contractFactory.getContractAt("0x1");
+
+    // negative values are encoded modulo the field prime
+    deepStrictEqual(contract.adaptInput("negate", { value: -5 }), [(PRIME - 5n).toString()]);
+    deepStrictEqual(contract.adaptOutput("negate", (PRIME - 5n).toString()), -5n);
+    deepStrictEqual(contract.adaptOutput("negate", "5"), 5n);
+    throws(() => contract.adaptInput("negate", { value: 128 }), /in range \[-128, 127\]/);
+    throws(() => contract.adaptInput("negate", { value: -129 }), /in range \[-128, 127\]/);
+
+    const i128Min = -(BigInt(2) ** BigInt(127));
+    deepStrictEqual(contract.adaptInput("echo_i128", { value: i128Min }), [
+        (PRIME + i128Min).toString()
+    ]);
+    deepStrictEqual(contract.adaptOutput("echo_i128", (PRIME + i128Min).toString()), i128Min);
+
+    // spans are adapted the same way as arrays
+    deepStrictEqual(contract.adaptInput("echo_span", { values: [1, -2] }), [
+        "2",
+        "1",
+        (PRIME - 2n).toString()
+    ]);
+    deepStrictEqual(contract.adaptOutput("echo_span", `2 1 ${PRIME - 2n}`), [1n, -2n]);
+
+    deepStrictEqual(contract.adaptInput("echo_storage_address", { address: "0x10" }), ["16"]);
+    deepStrictEqual(contract.adaptOutput("echo_storage_address", "16"), 16n);
+
+    // u256 and u512 are split into u128 limbs, the least significant first
+    const u128Max = BigInt(2) ** BigInt(128) - 1n;
+    const u256Max = BigInt(2) ** BigInt(256) - 1n;
+    deepStrictEqual(contract.adaptInput("echo_u256", { value: u256Max }), [
+        u128Max.toString(),
+        u128Max.toString()
+    ]);
+    deepStrictEqual(contract.adaptOutput("echo_u256", `${u128Max} ${u128Max}`), u256Max);
+    throws(() => contract.adaptInput("echo_u256", { value: u256Max + 1n }), /out of range/);
+    throws(() => contract.adaptInput("echo_u256", { value: -1 }), /out of range/);
+
+    const u512Value = BigInt(2) ** BigInt(300) + BigInt(2) ** BigInt(130) + 5n;
+    const u512Limbs = ["5", "4", (BigInt(2) ** BigInt(44)).toString(), "0"];
+    deepStrictEqual(contract.adaptInput("echo_u512", { value: u512Value }), u512Limbs);
+    deepStrictEqual(contract.adaptOutput("echo_u512", u512Limbs.join(" ")), u512Value);
+
+    const u512Max = BigInt(2) ** BigInt(512) - 1n;
+    const u512MaxLimbs = Array(4).fill(u128Max.toString());
+    deepStrictEqual(contract.adaptInput("echo_u512", { value: u512Max }), u512MaxLimbs);
+    deepStrictEqual(contract.adaptOutput("echo_u512", u512MaxLimbs.join(" ")), u512Max);
+    throws(() => contract.adaptInput("echo_u512", { value: u512Max + 1n }), /out of range/);
+    throws(() => contract.adaptInput("echo_u512", { value: -1 }), /out of range/);
+
+    // NonZero is adapted as the wrapped type, except that zero is rejected
+    deepStrictEqual(contract.adaptInput("echo_non_zero", { value: 7 }), ["7"]);
+    deepStrictEqual(contract.adaptOutput("echo_non_zero", "7"), 7n);
+    throws(() => contract.adaptInput("echo_non_zero", { value: 0 }), /to be non-zero/);
+    throws(() => contract.adaptInput("echo_non_zero", { value: 0n }), /to be non-zero/);
+
+    console.log("Integer types adapted as expected");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
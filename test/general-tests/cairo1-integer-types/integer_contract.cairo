@@ -0,0 +1,55 @@
+use integer::u512;
+use starknet::StorageAddress;
+use zeroable::NonZero;
+
+#[starknet::interface]
+trait IIntegerContract<TContractState> {
+    fn negate(self: @TContractState, value: i8) -> i8;
+    fn echo_i128(self: @TContractState, value: i128) -> i128;
+    fn echo_span(self: @TContractState, values: Span<i64>) -> Span<i64>;
+    fn echo_storage_address(self: @TContractState, address: StorageAddress) -> StorageAddress;
+    fn echo_u256(self: @TContractState, value: u256) -> u256;
+    fn echo_u512(self: @TContractState, value: u512) -> u512;
+    fn echo_non_zero(self: @TContractState, value: NonZero<u64>) -> NonZero<u64>;
+}
+
+#[starknet::contract]
+mod IntegerContract {
+    use integer::u512;
+    use starknet::StorageAddress;
+    use zeroable::NonZero;
+
+    #[storage]
+    struct Storage {}
+
+    #[external(v0)]
+    impl IntegerContractImpl of super::IIntegerContract<ContractState> {
+        fn negate(self: @ContractState, value: i8) -> i8 {
+            0 - value
+        }
+
+        fn echo_i128(self: @ContractState, value: i128) -> i128 {
+            value
+        }
+
+        fn echo_span(self: @ContractState, values: Span<i64>) -> Span<i64> {
+            values
+        }
+
+        fn echo_storage_address(self: @ContractState, address: StorageAddress) -> StorageAddress {
+            address
+        }
+
+        fn echo_u256(self: @ContractState, value: u256) -> u256 {
+            value
+        }
+
+        fn echo_u512(self: @ContractState, value: u512) -> u512 {
+            value
+        }
+
+        fn echo_non_zero(self: @ContractState, value: NonZero<u64>) -> NonZero<u64> {
+            value
+        }
+    }
+}
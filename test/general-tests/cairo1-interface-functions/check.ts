@@ -0,0 +1,31 @@
+import { copyFileSync, readFileSync } from "fs";
+import path from "path";
+import {
+    hardhatStarknetCompile,
+    hardhatStarknetRun,
+    hardhatStarknetTypegen
+} from "../../utils/cli-functions";
+import { assertContains, ensureEnvVar } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const contractName = "token.cairo";
+const contractPath = path.join("cairo1-contracts", contractName);
+copyFileSync(path.join(__dirname, contractName), contractPath);
+
+const scriptName = "interface-functions.ts";
+const scriptPath = path.join("scripts", scriptName);
+copyFileSync(path.join(__dirname, scriptName), scriptPath);
+
+hardhatStarknetCompile([contractPath, "--single-file"]);
+
+console.log("Testing typings of functions sharing a name");
+hardhatStarknetTypegen([]);
+const typings = readFileSync("starknet-typings/cairo1-contracts/token.ts", "utf-8");
+// qualified since the name is shared
+assertContains(typings, JSON.stringify("token::erc20::IERC20::deposit"));
+
+console.log("Testing access to interface functions");
+hardhatStarknetRun(["--no-compile", scriptPath]);
+
+console.log("Success");
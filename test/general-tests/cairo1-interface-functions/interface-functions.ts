@@ -0,0 +1,55 @@
+import { deepStrictEqual, throws } from "assert";
+import hre from "hardhat";
+
+// starknet_keccak("balance_of")
+const BALANCE_OF_SELECTOR = "0x35a73cd311a05d46deda634c5ee045db92f811b4e74bca4437fcb5302b7af33";
+// starknet_keccak("deposit")
+const DEPOSIT_SELECTOR = "0xc73f681176fc7b3f9693986fd7b14581e8d540519e27400e88b8713932be01";
+// starknet_keccak("withdraw"), not in the ABI
+const UNKNOWN_SELECTOR = "0x15511cc3694f64379908437d6d64458dc76d02482052bfb8a5b33a72c054c77";
+
+async function main() {
+    const contractFactory = await hre.starknet.getContractFactory("token");
+    // adaptation doesn't require a deployed contract
+    const contract = contractFactory.getContractAt("0x1");
+
+    // deposit is both a function of IERC20 and an l1_handler outside of interfaces
+    const ambiguity = /'.*' is ambiguous; it matches: token::erc20::IERC20::deposit, deposit\.$/;
+    throws(() => contract.adaptInput("deposit", { amount: 5 }), ambiguity);
+    // functions sharing a name share the selector as well
+    throws(() => contract.adaptInput(DEPOSIT_SELECTOR, { amount: 5 }), ambiguity);
+    for (const functionName of [
+        "IERC20::deposit",
+        "erc20::IERC20::deposit",
+        "ERC20Impl::deposit"
+    ]) {
+        deepStrictEqual(contract.adaptInput(functionName, { amount: 5 }), ["5", "0"]);
+        deepStrictEqual(contract.getEntrypointName(functionName), "deposit");
+    }
+
+    // unambiguous functions are accessible by their name, qualified name or selector
+    for (const functionName of ["balance_of", "IERC20::balance_of", "ERC20Impl::balance_of"]) {
+        deepStrictEqual(contract.adaptInput(functionName, { account: "0x10" }), ["16"]);
+    }
+    deepStrictEqual(contract.adaptOutput(BALANCE_OF_SELECTOR, "1 0"), 1n);
+    deepStrictEqual(contract.getEntrypointName(BALANCE_OF_SELECTOR), "balance_of");
+    deepStrictEqual(contract.adaptOutput("token::erc20::IERC20::name", "5"), 5n);
+    deepStrictEqual(contract.adaptInput("metadata::IMetadata::describe", { locale: 1 }), ["1"]);
+    deepStrictEqual(contract.adaptOutput("MetadataImpl::describe", "2 3 4"), [3n, 4n]);
+
+    throws(() => contract.adaptInput("IMetadata::balance_of"), /doesn't exist/);
+    // unknown functions are rejected rather than passed on as entry point names
+    for (const functionName of [UNKNOWN_SELECTOR, "withdraw"]) {
+        throws(() => contract.getEntrypointName(functionName), /doesn't exist/);
+        throws(() => contract.adaptOutput(functionName, "1 0"), /doesn't exist/);
+    }
+
+    console.log("Interface functions accessed as expected");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
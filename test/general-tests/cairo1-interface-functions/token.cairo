@@ -0,0 +1,51 @@
+mod erc20 {
+    use starknet::ContractAddress;
+
+    #[starknet::interface]
+    trait IERC20<TContractState> {
+        fn name(self: @TContractState) -> felt252;
+        fn balance_of(self: @TContractState, account: ContractAddress) -> u256;
+        fn deposit(ref self: TContractState, amount: u256);
+    }
+}
+
+mod metadata {
+    #[starknet::interface]
+    trait IMetadata<TContractState> {
+        fn describe(self: @TContractState, locale: felt252) -> Array<felt252>;
+    }
+}
+
+#[starknet::contract]
+mod Token {
+    use starknet::ContractAddress;
+    use super::erc20::IERC20;
+    use super::metadata::IMetadata;
+
+    #[storage]
+    struct Storage {}
+
+    #[external(v0)]
+    impl ERC20Impl of IERC20<ContractState> {
+        fn name(self: @ContractState) -> felt252 {
+            'Token'
+        }
+
+        fn balance_of(self: @ContractState, account: ContractAddress) -> u256 {
+            0
+        }
+
+        fn deposit(ref self: ContractState, amount: u256) {}
+    }
+
+    #[external(v0)]
+    impl MetadataImpl of IMetadata<ContractState> {
+        fn describe(self: @ContractState, locale: felt252) -> Array<felt252> {
+            array![locale]
+        }
+    }
+
+    // shares the name with the function of IERC20, but is not part of any interface
+    #[l1_handler]
+    fn deposit(ref self: ContractState, from_address: felt252, amount: felt252) {}
+}
@@ -0,0 +1,22 @@
+import { copyFileSync } from "fs";
+import path from "path";
+import {
+    hardhatStarknetCompile,
+    hardhatStarknetCompileDeprecated,
+    hardhatStarknetRun
+} from "../../utils/cli-functions";
+import { ensureEnvVar } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const scriptName = "compare-class-hashes.ts";
+const scriptPath = path.join("scripts", scriptName);
+copyFileSync(path.join(__dirname, scriptName), scriptPath);
+
+hardhatStarknetCompileDeprecated(["contracts/contract.cairo"]);
+hardhatStarknetCompile(["cairo1-contracts/contract1.cairo", "--single-file"]);
+
+// hashes computed in TypeScript are cross-checked against those computed by cairo-lang
+hardhatStarknetRun(["--no-compile", scriptPath]);
+
+console.log("Success");
@@ -0,0 +1,44 @@
+import hre from "hardhat";
+
+// [native method, Python command, artifact path]
+const comparisons: [
+    "getClassHash" | "getSierraContractClassHash" | "getCompiledClassHash",
+    "get_class_hash" | "get_contract_class_hash" | "get_compiled_class_hash",
+    string
+][] = [
+    ["getClassHash", "get_class_hash", "contracts/contract.cairo/contract.json"],
+    [
+        "getSierraContractClassHash",
+        "get_contract_class_hash",
+        "cairo1-contracts/contract1.cairo/contract1.json"
+    ],
+    [
+        "getCompiledClassHash",
+        "get_compiled_class_hash",
+        "cairo1-contracts/contract1.cairo/contract1.casm"
+    ]
+];
+
+async function main() {
+    for (const [method, command, relativePath] of comparisons) {
+        const artifactPath = `${hre.config.paths.starknetArtifacts}/${relativePath}`;
+        const nativeHash = await hre.starknetWrapper[method](artifactPath);
+
+        const executed = await hre.starknetWrapper.execute(command, [artifactPath]);
+        const pythonHash = executed.stdout.toString().trim();
+
+        if (nativeHash !== pythonHash) {
+            throw new Error(
+                `${method}(${relativePath}): expected ${pythonHash}, got ${nativeHash}`
+            );
+        }
+        console.log(`${method}(${relativePath}): ${nativeHash}`);
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
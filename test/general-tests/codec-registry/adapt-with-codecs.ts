@@ -0,0 +1,161 @@
+import { deepStrictEqual, throws } from "assert";
+import hre from "hardhat";
+import { TransactionTrace } from "hardhat/types/runtime";
+
+// starknet_keccak("PriceSet")
+const PRICE_SET_EVENT_KEY = "0x249ce8a11fa7ce734ab6bb809ce5299630babecf89c11083c0f5fab9956e425";
+// starknet_keccak("set_price")
+const SET_PRICE_SELECTOR = "0x26328f2da2292e724b4ae090aceaded8bebaf91b5e6b9bc4b13a78458688e38";
+// starknet_keccak("echo_price")
+const ECHO_PRICE_SELECTOR = "0x3a811da292cb9e28bff0567a7280d6340cdc828b24a0568982c86a73d7aaa50";
+const ETH_ADDRESS_TYPE = "core::starknet::eth_address::EthAddress";
+const FIXED_TYPE = "codec_contract::Fixed";
+const U64_TYPE = "core::integer::u64";
+const FIXED_SCALE = 1_000_000;
+
+interface Fixed {
+    mag: bigint;
+    sign: boolean;
+}
+
+type FunctionInvocation = TransactionTrace["function_invocation"];
+
+function invocation(
+    contractAddress: string,
+    selector: string,
+    calldata: string[],
+    result: string[],
+    events: FunctionInvocation["events"] = [],
+    internalCalls: FunctionInvocation[] = []
+): FunctionInvocation {
+    return {
+        call_type: "CALL",
+        calldata,
+        caller_address: "0x0",
+        class_hash: "0x0",
+        contract_address: contractAddress,
+        entry_point_type: "EXTERNAL",
+        events,
+        execution_resources: {
+            builtin_instance_counter: {
+                bitwise_builtin: 0,
+                ec_op_builtin: 0,
+                ecdsa_builtin: 0,
+                output_builtin: 0,
+                pedersen_builtin: 0,
+                range_check_builtin: 0
+            },
+            n_memory_holes: 0,
+            n_steps: 0
+        },
+        internal_calls: internalCalls,
+        messages: [],
+        result,
+        selector
+    };
+}
+
+async function main() {
+    hre.starknet.codecs.register<string>(ETH_ADDRESS_TYPE, {
+        decode: (value: bigint) => "0x" + value.toString(16).padStart(40, "0")
+    });
+    hre.starknet.codecs.register<number>(FIXED_TYPE, {
+        encode: (value) => ({ mag: Math.round(Math.abs(value) * FIXED_SCALE), sign: value < 0 }),
+        decode: (value: Fixed) => (value.sign ? -1 : 1) * (Number(value.mag) / FIXED_SCALE)
+    });
+
+    const contractFactory = await hre.starknet.getContractFactory("codec_contract");
+    // adaptation doesn't require a deployed contract
+    const contract = contractFactory.getContractAt("0x1");
+
+    const oracle = "0x00000000000000000000000000000000000000ab";
+    const args = { oracle, price: -1.25 };
+    const adapted = contract.adaptInput("echo_price", args);
+    deepStrictEqual(adapted, ["171", "1250000", "1"]);
+    deepStrictEqual(contract.adaptOutput("echo_price", adapted.join(" ")), [oracle, -1.25]);
+
+    // codecs are applied to events as well
+    const events = contract.decodeEvents([
+        {
+            from_address: contract.address,
+            keys: [PRICE_SET_EVENT_KEY],
+            data: ["0xab", "0x2625a0", "0x0"]
+        }
+    ]);
+    deepStrictEqual(events, [{ name: "PriceSet", data: { oracle, price: 2.5 } }]);
+
+    // codecs are applied to traces as well; invocations of other contracts are skipped
+    const priceSetEvent = {
+        from_address: contract.address,
+        keys: [PRICE_SET_EVENT_KEY],
+        data: ["0xab", "0x2625a0", "0x0"]
+    };
+    const trace: TransactionTrace = {
+        signature: [],
+        function_invocation: invocation(
+            "0x2",
+            "0x123",
+            [],
+            [],
+            [],
+            [
+                invocation(
+                    contract.address,
+                    SET_PRICE_SELECTOR,
+                    ["0xab", "0x2625a0", "0x0"],
+                    [],
+                    [priceSetEvent]
+                ),
+                invocation(
+                    "0x3",
+                    ECHO_PRICE_SELECTOR,
+                    ["0xab", "0x1", "0x0"],
+                    ["0xab", "0x1", "0x0"]
+                ),
+                invocation(contract.address, ECHO_PRICE_SELECTOR, adapted, adapted)
+            ]
+        )
+    };
+    deepStrictEqual(contract.decodeTrace(trace), [
+        {
+            name: "set_price",
+            args: { oracle, price: 2.5 },
+            result: {},
+            events: [{ name: "PriceSet", data: { oracle, price: 2.5 } }]
+        },
+        { name: "echo_price", args, result: [oracle, -1.25], events: [] }
+    ]);
+
+    // values wrapped in NonZero are adapted with the codec of the wrapped type
+    hre.starknet.codecs.register<string>(U64_TYPE, {
+        encode: (value) => BigInt(value.replace(/^#/, "")),
+        decode: (value: bigint) => `#${value}`
+    });
+    deepStrictEqual(contract.adaptInput("echo_count", { count: "#42" }), ["42"]);
+    deepStrictEqual(contract.adaptOutput("echo_count", "42"), "#42");
+    // zero is rejected even if produced by the codec
+    throws(() => contract.adaptInput("echo_count", { count: "#0" }), /to be non-zero/);
+
+    throws(() => hre.starknet.codecs.register(FIXED_TYPE, {}), /at least one of encode and decode/);
+
+    // without a codec, the default representation is used
+    deepStrictEqual(hre.starknet.codecs.unregister(FIXED_TYPE), true);
+    deepStrictEqual(contract.adaptInput("echo_price", { oracle, price: { mag: 5, sign: false } }), [
+        "171",
+        "5",
+        "0"
+    ]);
+    deepStrictEqual(contract.adaptOutput("echo_price", "171 5 1"), [
+        oracle,
+        { mag: 5n, sign: true }
+    ]);
+
+    console.log("Types adapted with codecs as expected");
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
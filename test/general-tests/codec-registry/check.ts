@@ -0,0 +1,19 @@
+import { copyFileSync } from "fs";
+import path from "path";
+import { hardhatStarknetCompile, hardhatStarknetRun } from "../../utils/cli-functions";
+import { ensureEnvVar } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const contractName = "codec_contract.cairo";
+const contractPath = path.join("cairo1-contracts", contractName);
+copyFileSync(path.join(__dirname, contractName), contractPath);
+
+const scriptName = "adapt-with-codecs.ts";
+const scriptPath = path.join("scripts", scriptName);
+copyFileSync(path.join(__dirname, scriptName), scriptPath);
+
+hardhatStarknetCompile([contractPath, "--single-file"]);
+hardhatStarknetRun(["--no-compile", scriptPath]);
+
+console.log("Success");
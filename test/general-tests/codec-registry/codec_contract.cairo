@@ -0,0 +1,54 @@
+use starknet::EthAddress;
+use zeroable::NonZero;
+
+#[derive(Copy, Drop, Serde)]
+struct Fixed {
+    mag: u128,
+    sign: bool
+}
+
+#[starknet::interface]
+trait ICodecContract<TContractState> {
+    fn echo_price(self: @TContractState, oracle: EthAddress, price: Fixed) -> (EthAddress, Fixed);
+    fn set_price(ref self: TContractState, oracle: EthAddress, price: Fixed);
+    fn echo_count(self: @TContractState, count: NonZero<u64>) -> NonZero<u64>;
+}
+
+#[starknet::contract]
+mod CodecContract {
+    use starknet::EthAddress;
+    use zeroable::NonZero;
+    use super::Fixed;
+
+    #[storage]
+    struct Storage {}
+
+    #[event]
+    #[derive(Drop, starknet::Event)]
+    enum Event {
+        PriceSet: PriceSet
+    }
+
+    #[derive(Drop, starknet::Event)]
+    struct PriceSet {
+        oracle: EthAddress,
+        price: Fixed
+    }
+
+    #[external(v0)]
+    impl CodecContractImpl of super::ICodecContract<ContractState> {
+        fn echo_price(
+            self: @ContractState, oracle: EthAddress, price: Fixed
+        ) -> (EthAddress, Fixed) {
+            (oracle, price)
+        }
+
+        fn set_price(ref self: ContractState, oracle: EthAddress, price: Fixed) {
+            self.emit(PriceSet { oracle, price });
+        }
+
+        fn echo_count(self: @ContractState, count: NonZero<u64>) -> NonZero<u64> {
+            count
+        }
+    }
+}
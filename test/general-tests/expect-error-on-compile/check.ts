@@ -1,7 +1,7 @@
-import { copyFileSync } from "fs";
+import { copyFileSync, readFileSync } from "fs";
 import path from "path";
 import { hardhatStarknetCompileDeprecated } from "../../utils/cli-functions";
-import { assertContains } from "../../utils/utils";
+import { assertContains, assertEqual } from "../../utils/utils";
 
 const contractName = "invalid_contract.cairo";
 const contractPath = path.join("contracts", contractName);
@@ -14,4 +14,15 @@ assertContains(
     compileResult.stderr,
     "Unknown identifier 'openzeppelin.token.erc721.library.ERC721.nonexistent_method'"
 );
+
+console.log("Testing reporting of compilation diagnostics");
+const diagnosticsPath = "diagnostics.sarif";
+hardhatStarknetCompileDeprecated([contractPath, "--diagnostics-output", diagnosticsPath], true);
+const [result] = JSON.parse(readFileSync(diagnosticsPath, "utf-8")).runs[0].results;
+assertEqual(result.level, "error");
+assertContains(result.message.text, "nonexistent_method");
+const location = result.locations[0].physicalLocation;
+assertEqual(location.artifactLocation.uri, contractPath);
+assertEqual(location.region.startLine, 11);
+
 console.log("Success");
@@ -0,0 +1,34 @@
+import {
+    hardhatStarknetClean,
+    hardhatStarknetCompileDeprecated,
+    hardhatClean
+} from "../../utils/cli-functions";
+import { assertContains, assertExistence } from "../../utils/utils";
+
+const artifactsPath = "starknet-artifacts";
+const cachePath = "cache/cairo-files-cache.json";
+
+hardhatStarknetCompileDeprecated(["contracts/contract.cairo"]);
+assertExistence(artifactsPath);
+assertExistence(cachePath);
+
+console.log("Testing dry run");
+const dryRun = hardhatStarknetClean(["--dry-run"]);
+assertContains(dryRun.stdout, "Would remove:");
+assertContains(dryRun.stdout, `${artifactsPath} (Starknet artifacts)`);
+assertContains(dryRun.stdout, `${cachePath} (recompilation cache)`);
+assertExistence(artifactsPath);
+assertExistence(cachePath);
+
+console.log("Testing starknet-clean");
+hardhatStarknetClean([]);
+assertExistence(artifactsPath, false);
+assertExistence(cachePath, false);
+
+console.log("Testing Hardhat's clean");
+hardhatStarknetCompileDeprecated(["contracts/contract.cairo"]);
+hardhatClean([]);
+assertExistence(artifactsPath, false);
+assertExistence(cachePath, false);
+
+console.log("Success");
@@ -0,0 +1,29 @@
+import { copyFileSync, readFileSync } from "fs";
+import path from "path";
+import {
+    hardhatStarknetCompileDeprecated,
+    hardhatStarknetTypegen
+} from "../../utils/cli-functions";
+import { assertContains, assertExistence } from "../../utils/utils";
+
+const contractName = "typed_contract.cairo";
+const contractPath = path.join("contracts", contractName);
+copyFileSync(path.join(__dirname, contractName), contractPath);
+
+console.log("Testing typings generated on compilation");
+hardhatStarknetCompileDeprecated([contractPath]);
+const typingsPath = "starknet-typings/contracts/typed_contract.ts";
+assertExistence(typingsPath);
+
+const typings = readFileSync(typingsPath, "utf-8");
+assertContains(typings, "export type PointInput = {");
+// array length is not passed by the user
+assertContains(typings, "points: Array<PointInput>;");
+assertContains(typings, "point: Point;");
+assertContains(typings, "export type TypedContract = StarknetContract<TypedContractFunctions>;");
+
+console.log("Testing typings generated by the task");
+hardhatStarknetTypegen(["--out-dir", "custom-typings"]);
+assertExistence("custom-typings/contracts/typed_contract.ts");
+
+console.log("Success");
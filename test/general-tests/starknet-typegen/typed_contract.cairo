@@ -0,0 +1,31 @@
+%lang starknet
+
+from starkware.cairo.common.cairo_builtins import HashBuiltin
+
+struct Point {
+    x: felt,
+    y: felt,
+}
+
+@storage_var
+func last_point() -> (res: Point) {
+}
+
+@external
+func store_points{syscall_ptr: felt*, pedersen_ptr: HashBuiltin*, range_check_ptr}(
+    points_len: felt, points: Point*
+) {
+    if (points_len == 0) {
+        return ();
+    }
+    last_point.write(points[points_len - 1]);
+    return ();
+}
+
+@view
+func get_last_point{syscall_ptr: felt*, pedersen_ptr: HashBuiltin*, range_check_ptr}() -> (
+    point: Point
+) {
+    let (point) = last_point.read();
+    return (point,);
+}
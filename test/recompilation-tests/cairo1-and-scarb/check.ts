@@ -0,0 +1,37 @@
+import { copyFileSync, readFileSync } from "fs";
+import path from "path";
+import {
+    hardhatStarknetBuild,
+    hardhatStarknetCompile,
+    hardhatStarknetRun
+} from "../../utils/cli-functions";
+import { scarbArtifactsAssertion } from "../../utils/scarb-utils";
+import { assertEqual, assertExistence, ensureEnvVar, rmrfSync } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const cairo1ContractPath = path.join("contracts", "cairo1_contract.cairo");
+const cairo1ArtifactsPath = path.join("starknet-artifacts", cairo1ContractPath);
+copyFileSync(path.join("cairo1-contracts", "contract1.cairo"), cairo1ContractPath);
+
+const projectName = "cairo1_sample_project";
+const packageConfigPath = path.resolve(projectName, "Scarb.toml");
+
+hardhatStarknetCompile([cairo1ContractPath, "--single-file"]);
+hardhatStarknetBuild([projectName]);
+
+console.log("Testing that compilation options are recorded in the cache");
+const cache = JSON.parse(readFileSync("cache/cairo-files-cache.json").toString());
+const cairo1Entry = cache[path.resolve(cairo1ContractPath)];
+assertEqual(cairo1Entry.sourceType, "cairo1");
+assertEqual(cairo1Entry.singleFile, true);
+assertEqual(cache[packageConfigPath].sourceType, "scarb");
+
+console.log("Testing Cairo 1 and Scarb recompilation with artifacts deleted");
+rmrfSync(cairo1ArtifactsPath);
+rmrfSync(path.join("starknet-artifacts", projectName));
+hardhatStarknetRun("--no-compile scripts/deploy.ts".split(" "));
+
+// only produced by the Cairo 1 compiler
+assertExistence(path.join(cairo1ArtifactsPath, "cairo1_contract.casm"));
+scarbArtifactsAssertion(projectName);
@@ -0,0 +1,16 @@
+import "@shardlabs/starknet-hardhat-plugin";
+
+module.exports = {
+    starknet: {
+        venv: "active",
+        network: process.env.NETWORK,
+        recompile: true,
+        cairo1BinDir: process.env.CAIRO_1_COMPILER_DIR,
+        scarbCommand: `${process.env.HOME}/.local/bin/scarb`
+    },
+    networks: {
+        devnet: {
+            url: "http://127.0.0.1:5050"
+        }
+    }
+};
@@ -1,4 +1,4 @@
-import { copyFileSync, readFileSync, appendFileSync } from "fs";
+import { copyFileSync, readFileSync, appendFileSync, statSync } from "fs";
 import path from "path";
 import { hardhatStarknetTest } from "../../utils/cli-functions";
 import { assertNotEqual, rmrfSync } from "../../utils/utils";
@@ -36,8 +36,17 @@ rmrfSync("cache/cairo-files-cache.json");
 hardhatStarknetTest("--no-compile test/recompilation/recompilation-main-test.ts".split(" "));
 
 console.log("Testing Recompilation with dependency changed");
+const contractArtifactPath =
+    "starknet-artifacts/contracts/contract_test_cache.cairo/contract_test_cache.json";
+const artifactModifiedBefore = statSync(contractArtifactPath).mtimeMs;
 appendFileSync(dependencyPath, "//");
 hardhatStarknetTest("--no-compile test/recompilation/recompilation-dependency-test.ts".split(" "));
+// the importing contract is recompiled as well
+assertNotEqual(
+    statSync(contractArtifactPath).mtimeMs,
+    artifactModifiedBefore,
+    "Contract importing the changed dependency was not recompiled."
+);
 
 console.log("Testing Recompilation with source deleted");
 copyFileSync("cache/cairo-files-cache.json", "cache-content-before.json");
@@ -0,0 +1,89 @@
+import { spawn } from "child_process";
+import { appendFileSync, copyFileSync, existsSync, mkdirSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { assertEqual, ensureEnvVar } from "../../utils/utils";
+
+ensureEnvVar("CAIRO_1_COMPILER_DIR");
+
+const TIMEOUT_MILLIS = 120_000;
+const POLL_MILLIS = 500;
+
+const sourcesPath = "watched-contracts";
+const contractPath = path.join(sourcesPath, "contract.cairo");
+const newContractPath = path.join(sourcesPath, "new_contract.cairo");
+const artifactPath = path.join("starknet-artifacts", contractPath, "contract.json");
+const newArtifactPath = path.join("starknet-artifacts", newContractPath, "new_contract.json");
+const cairo0ContractPath = path.join(sourcesPath, "cairo0_contract.cairo");
+const cairo0ArtifactPath = path.join(
+    "starknet-artifacts",
+    cairo0ContractPath,
+    "cairo0_contract.json"
+);
+
+mkdirSync(sourcesPath);
+copyFileSync(path.join("cairo1-contracts", "contract1.cairo"), contractPath);
+
+function readCache() {
+    try {
+        return JSON.parse(readFileSync("cache/cairo-files-cache.json").toString());
+    } catch {
+        // the cache file may be in the middle of being written
+        return {};
+    }
+}
+
+async function waitFor(description: string, condition: () => boolean) {
+    const deadline = Date.now() + TIMEOUT_MILLIS;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting for: ${description}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, POLL_MILLIS));
+    }
+}
+
+(async () => {
+    // detached so that the whole process group, including the hardhat process spawned by npx, can be stopped
+    const watcher = spawn(
+        "npx",
+        ["hardhat", "starknet-compile", sourcesPath, "--single-file", "--watch"],
+        { detached: true }
+    );
+    let output = "";
+    watcher.stdout.on("data", (chunk) => (output += chunk));
+    watcher.stderr.on("data", (chunk) => (output += chunk));
+
+    try {
+        await waitFor("initial compilation", () =>
+            output.includes("plugin watching for changes in")
+        );
+        const initialMtime = statSync(artifactPath).mtimeMs;
+
+        console.log("Testing that an edited source is recompiled");
+        appendFileSync(contractPath, "\n// edited\n");
+        await waitFor("recompilation of the edited source", () => {
+            return existsSync(artifactPath) && statSync(artifactPath).mtimeMs > initialMtime;
+        });
+
+        console.log("Testing that a new source is compiled with the task arguments");
+        copyFileSync(path.join("cairo1-contracts", "contract1.cairo"), newContractPath);
+        await waitFor("compilation of the new source", () => existsSync(newArtifactPath));
+        // the cache is written once the compilation is done
+        await waitFor("cache update", () => path.resolve(newContractPath) in readCache());
+        assertEqual(readCache()[path.resolve(newContractPath)].singleFile, true);
+
+        console.log("Testing that a new source of another type is skipped");
+        copyFileSync(path.join("contracts", "contract.cairo"), cairo0ContractPath);
+        await waitFor("skipping of the Cairo 0 source", () =>
+            output.includes(`Skipping ${path.resolve(cairo0ContractPath)}`)
+        );
+        assertEqual(existsSync(cairo0ArtifactPath), false);
+    } catch (error) {
+        console.error(output);
+        throw error;
+    } finally {
+        process.kill(-watcher.pid, "SIGTERM");
+    }
+
+    console.log("Success");
+})();
@@ -44,3 +44,27 @@ export const hardhatStarknetPluginVersion = () => {
 export const hardhatStarknetBuild = (args: Array<string>, expectFailure = false) => {
     return exec(`npx hardhat starknet-build ${args.join(" ")}`, expectFailure);
 };
+
+export const hardhatStarknetTypegen = (args: Array<string>, expectFailure = false) => {
+    return exec(`npx hardhat starknet-typegen ${args.join(" ")}`, expectFailure);
+};
+
+export const hardhatStarknetSize = (args: Array<string>, expectFailure = false) => {
+    return exec(`npx hardhat starknet-size ${args.join(" ")}`, expectFailure);
+};
+
+export const hardhatStarknetArtifactsCheck = (args: Array<string>, expectFailure = false) => {
+    return exec(`npx hardhat starknet-artifacts-check ${args.join(" ")}`, expectFailure);
+};
+
+export const hardhatStarknetClean = (args: Array<string>, expectFailure = false) => {
+    return exec(`npx hardhat starknet-clean ${args.join(" ")}`, expectFailure);
+};
+
+export const hardhatCompile = (args: Array<string>, expectFailure = false) => {
+    return exec(`npx hardhat compile ${args.join(" ")}`, expectFailure);
+};
+
+export const hardhatClean = (args: Array<string>, expectFailure = false) => {
+    return exec(`npx hardhat clean ${args.join(" ")}`, expectFailure);
+};